@@ -2,9 +2,10 @@ import { ColumnMetadata } from "./file-metadata.js";
 
 /**
  * Defines an anchor column entry which is one of the following:
- * - A {@link ColumnMetadata} with {@link ColumnMetadata.unbounded} set to `false`.
+ * - A {@link ColumnMetadata} with {@link ColumnMetadata.isAnchor} set to `true`, i.e. it's bounded or all its values
+ *   have the same {@link ColumnMetadata.valueType}.
  * - An invisible final column in a list of {@link ColumnMetadata} if the last column has
- *   {@link ColumnMetadata.unbounded} set to `true`.
+ *   {@link ColumnMetadata.isAnchor} set to `false`.
  *
  * Anchor columns help disambiguate malformed lines whose column values contain the delimiter character.
  */
@@ -25,10 +26,10 @@ export interface AnchorColumn {
  * For example, given the following four {@link ColumnMetadata} entries:
  * ```
  * [
- *   { name: "first_name", unbounded: true, ... },
- *   { name: "last_name", unbounded: true, ... },
- *   { name: "sex", unbounded: false, ... },
- *   { name: "hobbies", unbounded: true, ... }
+ *   { name: "first_name", isAnchor: false, ... },
+ *   { name: "last_name", isAnchor: false, ... },
+ *   { name: "sex", isAnchor: true, ... },
+ *   { name: "hobbies", isAnchor: false, ... }
  * ]
  * ```
  *
@@ -56,8 +57,8 @@ export function getAnchorColumns(
 
   // while there are columns left
   while (i < columns.length) {
-    if (!columns[i++].unbounded) {
-      // found bounded column: add anchor
+    if (columns[i++].isAnchor) {
+      // found anchor column: add anchor
       result.push({
         previousColumns,
         metadata: columns[i - 1],
@@ -67,7 +68,7 @@ export function getAnchorColumns(
     } else {
       ++previousColumns;
       if (i === columns.length) {
-        // last column is unbounded: add invisible final anchor
+        // last column is not an anchor: add invisible final anchor
         result.push({ previousColumns });
       }
     }
@@ -1,43 +1,82 @@
 import minimist from "minimist";
 
+import type { FileEncoding } from "./encoding.js";
+import { parseMetadataSample } from "./metadata-sample.js";
+
 /** The program's arguments. */
 export interface Arguments {
   // file paths
   readonly inputFilePath: string;
   readonly outputFilePath: string;
   readonly unprocessedFilePath: string;
+  readonly reviewFilePath?: string;
+  readonly unprocessedFormat: UnprocessedFormat;
+  readonly auditFilePath?: string;
   readonly inputMetadataFilePath: string;
+  readonly rebuildMetadata: boolean;
+  readonly metadataSample?: string;
+  readonly metadataWorkers: number;
+  readonly metadataIterations: number;
+  readonly rulesFilePath?: string;
+  readonly metadataOverridesFilePath?: string;
   // delimiters
   readonly inputDelimiter: string;
+  readonly delimiterRegex: boolean;
   readonly outputDelimiter: string;
   readonly delimiterReplacement: string;
+  readonly newlineReplacement?: string;
+  readonly keepDelimiters: boolean;
+  readonly quoteCharacter?: string;
+  readonly escapeCharacter?: string;
+  readonly decodeEscapes: boolean;
   // columns, rows, cardinality
   readonly numberOfColumns?: number;
+  readonly hasHeader?: boolean;
+  readonly columnNames?: string;
   readonly numberOfRows?: number;
   readonly maxCardinality: number;
+  readonly maxRelativeCardinality?: number;
+  readonly ambiguityMargin: number;
+  readonly enforceMaxLength: boolean;
+  readonly maxMergeLines: number;
+  readonly maxRecordLines: number;
   // encoding
-  readonly inputFileEncoding: BufferEncoding;
-  readonly outputFileEncoding: BufferEncoding;
+  readonly inputFileEncoding: FileEncoding | "auto";
+  readonly outputFileEncoding: FileEncoding;
+  readonly outputBom?: boolean;
+  readonly lineEnding: LineEnding;
 }
 
+/** The output line ending: `"preserve"` uses the input file's line ending. */
+export type LineEnding = "crlf" | "lf" | "preserve";
+
+/** The format of the unprocessed and review files: raw `"text"` lines, or `"jsonl"` for JSON Lines. */
+export type UnprocessedFormat = "jsonl" | "text";
+
 interface ArgumentMetadataEntry {
   /** The argument's alias. */
   readonly alias: keyof Arguments;
 
   /** The argument's default value. */
-  readonly default?: number | string;
+  readonly default?: boolean | number | string;
 
   /** The argument's documentation. */
   readonly doc: string;
 
-  /** The placeholder documentation value. */
-  readonly placeholder: string;
+  /**
+   * Indicates whether a boolean argument can be negated with `--no-{name}`, in which case it's omitted unless it's
+   * specified.
+   */
+  readonly negatable?: boolean;
+
+  /** The placeholder documentation value. Omitted for boolean arguments. */
+  readonly placeholder?: string;
 
   /** Indicates whether the argument is required. */
   readonly required?: boolean;
 
   /** The argument's type. */
-  readonly type: "number" | "string";
+  readonly type: "boolean" | "number" | "string";
 
   /** Validates the argument's value. */
   validate?(value: unknown): void;
@@ -68,10 +107,90 @@ const ARGUMENT_METADATA_MAP: ArgumentMetadata = {
     placeholder: "filepath",
     type: "string",
   },
+  review: {
+    alias: "reviewFilePath",
+    doc: "The path to the file that contains ambiguous lines for review. If omitted, ambiguous lines are written to the unprocessed lines file.",
+    placeholder: "filepath",
+    type: "string",
+  },
+  "unprocessed-format": {
+    alias: "unprocessedFormat",
+    default: "text",
+    doc: 'The format of the unprocessed and review files: "text" for the raw lines, or "jsonl" for JSON Lines with the line number, number of columns, rejection reason and text of each line.',
+    placeholder: "format",
+    type: "string",
+    validate(value: string) {
+      validateChoice("unprocessed-format", value, UNPROCESSED_FORMATS);
+    },
+  },
+  audit: {
+    alias: "auditFilePath",
+    doc: "The path to a JSON Lines file that describes each repaired row: its line numbers, its original tokens, the tokens merged into each column and the anchor column matches that decided the merges. If omitted, repairs are not recorded.",
+    placeholder: "filepath",
+    type: "string",
+  },
   "input-metadata": {
     alias: "inputMetadataFilePath",
     default: "input-metadata.json",
-    doc: "The path to the file that contains metadata about the input file.",
+    doc: "The path to the file that contains metadata about the input file. It fails if the file was built from a different input file or with different arguments.",
+    placeholder: "filepath",
+    type: "string",
+  },
+  "rebuild-metadata": {
+    alias: "rebuildMetadata",
+    doc: "Rebuilds the input metadata file even if it exists.",
+    type: "boolean",
+  },
+  "metadata-sample": {
+    alias: "metadataSample",
+    doc: 'Builds the input metadata from a sample of the input file lines instead of all of them, in the {strategy}:{size} format. The strategy is "first" for the first lines, "reservoir" for lines chosen uniformly at random, or "stride" for lines at evenly spaced positions of the input file, which doesn\'t read the whole file, e.g. "stride:10000". A sampled input file is only checked for changes by size and modification time. If omitted, all the lines are used.',
+    placeholder: "sample",
+    type: "string",
+    validate(value: string) {
+      if (!parseMetadataSample(value)) {
+        throw new Error(
+          'Invalid value for --metadata-sample. The value must be "first", "reservoir" or "stride", a colon and a positive number of lines, e.g. "stride:10000".'
+        );
+      }
+    },
+  },
+  "metadata-workers": {
+    alias: "metadataWorkers",
+    default: 1,
+    doc: "The number of worker threads that build the input metadata in parallel, each from a range of the input file lines. Ignored if --metadata-sample is specified.",
+    placeholder: "number",
+    type: "number",
+    validate(value: number) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(
+          "Invalid value for --metadata-workers. The value must be a positive integer."
+        );
+      }
+    },
+  },
+  "metadata-iterations": {
+    alias: "metadataIterations",
+    default: 1,
+    doc: "The maximum number of times to build the input metadata. After the first time, it's rebuilt from the rows parsed with the previous input metadata, including the repaired rows, until the anchor columns don't change. Only the first input metadata is written to the input metadata file.",
+    placeholder: "number",
+    type: "number",
+    validate(value: number) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(
+          "Invalid value for --metadata-iterations. The value must be a positive integer."
+        );
+      }
+    },
+  },
+  rules: {
+    alias: "rulesFilePath",
+    doc: 'The path to a JSON file that contains an array of column rules, e.g. [{ "column": "code", "pattern": "^[A-Z]{2}\\\\d{6}$" }]. A column is specified by name or 1-based index, and its values matching the pattern are used as anchors. A rule can also override the --max-cardinality and --max-relative-cardinality of its column, e.g. { "column": "country", "maxCardinality": 300 }.',
+    placeholder: "filepath",
+    type: "string",
+  },
+  "metadata-overrides": {
+    alias: "metadataOverridesFilePath",
+    doc: 'The path to a JSON file that contains an array of overrides of the input metadata, which are applied after it is read or built, e.g. [{ "column": "hobbies", "unbounded": true }, { "column": "force_alignment", "addValues": ["Grey"] }]. A column is specified by its original name or 1-based index, and an override can also rename it with "name", remove values with "removeValues", or exclude it from the anchor columns with "anchor": false.',
     placeholder: "filepath",
     type: "string",
   },
@@ -79,10 +198,15 @@ const ARGUMENT_METADATA_MAP: ArgumentMetadata = {
   "input-delimiter": {
     alias: "inputDelimiter",
     default: "|",
-    doc: "The input file column delimiter.",
+    doc: 'The input file column delimiter, or "auto" to detect it from the start of the input file among: "|", ",", tab, ";" and "^". It can have more than one character, e.g. "~|~".',
     placeholder: "delimiter",
     type: "string",
   },
+  "delimiter-regex": {
+    alias: "delimiterRegex",
+    doc: 'Interprets the input file column delimiter as a regular expression, e.g. "\\t+" for one or more tabs.',
+    type: "boolean",
+  },
   "output-delimiter": {
     alias: "outputDelimiter",
     default: "\t",
@@ -93,10 +217,52 @@ const ARGUMENT_METADATA_MAP: ArgumentMetadata = {
   "delimiter-replacement": {
     alias: "delimiterReplacement",
     default: " ",
-    doc: "The value to replace input file delimiters when they're used in a string value.",
+    doc: "The value to replace input file delimiters when they're used in a string value, and output delimiters in output values if there's no quote character.",
+    placeholder: "replacement",
+    type: "string",
+  },
+  "newline-replacement": {
+    alias: "newlineReplacement",
+    doc: "The value to replace the line breaks in-between the lines of a row that was broken across lines, and the line breaks in output values if there's no quote character. If omitted, the delimiter replacement is used.",
     placeholder: "replacement",
     type: "string",
   },
+  "keep-delimiters": {
+    alias: "keepDelimiters",
+    doc: "Keeps the input file delimiters when they're used in a string value instead of replacing them. Values that span lines are still joined with the delimiter replacement.",
+    type: "boolean",
+  },
+  quote: {
+    alias: "quoteCharacter",
+    doc: "The input file quote character. Quoted values may contain delimiters and new lines, and quotes are escaped by doubling them. Output values that contain the output delimiter, quotes or new lines are quoted the same way. If omitted, quotes are not interpreted.",
+    placeholder: "character",
+    type: "string",
+    validate(value: string) {
+      if (value.length !== 1) {
+        throw new Error(
+          "Invalid value for --quote. The value must be a single character."
+        );
+      }
+    },
+  },
+  "escape-char": {
+    alias: "escapeCharacter",
+    doc: "The input file escape character. Escaped delimiters are never considered column boundaries, and an escape character at the end of a line escapes the line break. If omitted, escape sequences are not interpreted.",
+    placeholder: "character",
+    type: "string",
+    validate(value: string) {
+      if (value.length !== 1) {
+        throw new Error(
+          "Invalid value for --escape-char. The value must be a single character."
+        );
+      }
+    },
+  },
+  "decode-escapes": {
+    alias: "decodeEscapes",
+    doc: "Decodes the input file escape sequences, e.g. an escaped delimiter becomes the delimiter and an escaped n becomes a new line. If omitted, escape sequences are kept verbatim.",
+    type: "boolean",
+  },
   // columns, rows, cardinality
   "number-of-columns": {
     alias: "numberOfColumns",
@@ -104,6 +270,32 @@ const ARGUMENT_METADATA_MAP: ArgumentMetadata = {
     placeholder: "number",
     type: "number",
   },
+  header: {
+    alias: "hasHeader",
+    doc: "Indicates whether the first line of the input file is a header, which is written once at the top of the output file instead of being processed. If omitted, it's a header unless --number-of-columns or --column-names are specified.",
+    negatable: true,
+    type: "boolean",
+  },
+  "column-names": {
+    alias: "columnNames",
+    doc: "The comma-separated column names, which are written once at the top of the output file. If omitted, they're taken from the header.",
+    placeholder: "names",
+    type: "string",
+    validate(value: string) {
+      const names = value.split(",");
+      if (names.some((x) => !x)) {
+        throw new Error(
+          "Invalid value for --column-names. The names must not be empty."
+        );
+      }
+
+      if (new Set(names).size !== names.length) {
+        throw new Error(
+          "Invalid value for --column-names. The names must be unique."
+        );
+      }
+    },
+  },
   "number-of-rows": {
     alias: "numberOfRows",
     doc: "The maximum number of rows to write to the output file. If omitted there's no limit.",
@@ -117,15 +309,75 @@ const ARGUMENT_METADATA_MAP: ArgumentMetadata = {
     placeholder: "number",
     type: "number",
   },
+  "max-relative-cardinality": {
+    alias: "maxRelativeCardinality",
+    doc: "The maximum percentage of unique values relative to the number of rows a column can have before it's considered unbounded, e.g. 5. If omitted, only --max-cardinality is used.",
+    placeholder: "percentage",
+    type: "number",
+    validate(value: number) {
+      if (!(value > 0 && value <= 100)) {
+        throw new Error(
+          "Invalid value for --max-relative-cardinality. The value must be a number greater than 0 and at most 100."
+        );
+      }
+    },
+  },
+  "ambiguity-margin": {
+    alias: "ambiguityMargin",
+    default: 0,
+    doc: "The maximum score difference between the two best ways of parsing a line for it to be considered ambiguous, e.g. 0 for ties only. Ambiguous lines are written to the review file, or else to the unprocessed lines file, instead of being guessed.",
+    placeholder: "number",
+    type: "number",
+    validate(value: number) {
+      if (value < 0) {
+        throw new Error(
+          "Invalid value for --ambiguity-margin. The value must be a non-negative number."
+        );
+      }
+    },
+  },
+  "enforce-max-length": {
+    alias: "enforceMaxLength",
+    doc: "Never merges columns into a value longer than the longest value of the column in the input metadata. If omitted, such merges are only penalized.",
+    type: "boolean",
+  },
+  "max-merge-lines": {
+    alias: "maxMergeLines",
+    default: 100,
+    doc: "The maximum number of consecutive lines that can't be parsed on their own to keep for merging into a row. When it's exceeded, the oldest line is written to the unprocessed lines file, so that a long region of lines that never parse doesn't stall the parsing.",
+    placeholder: "number",
+    type: "number",
+    validate(value: number) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(
+          "Invalid value for --max-merge-lines. The value must be a positive integer."
+        );
+      }
+    },
+  },
+  "max-record-lines": {
+    alias: "maxRecordLines",
+    default: 100,
+    doc: "The maximum number of lines a record can span because of quoted values or escaped line breaks. When it's exceeded, e.g. because a quote is never closed, the record's lines are written to the unprocessed lines file. Only applies if --quote or --escape-char is specified.",
+    placeholder: "number",
+    type: "number",
+    validate(value: number) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(
+          "Invalid value for --max-record-lines. The value must be a positive integer."
+        );
+      }
+    },
+  },
   // encoding
   "input-encoding": {
     alias: "inputFileEncoding",
     default: "utf8",
-    doc: "The input file encoding.",
+    doc: 'The input file encoding, or "auto" to detect it from the byte order mark, or else as "utf8" if the start of the input file is valid UTF-8 and as "windows-1252" otherwise. A byte order mark at the start of the input file is never processed.',
     placeholder: "encoding",
     type: "string",
-    validate(value: BufferEncoding) {
-      validateEncoding("input-encoding", value);
+    validate(value: string) {
+      validateEncoding("input-encoding", value, ALLOWED_INPUT_ENCODINGS);
     },
   },
   "output-encoding": {
@@ -134,13 +386,29 @@ const ARGUMENT_METADATA_MAP: ArgumentMetadata = {
     doc: "The output file encoding.",
     placeholder: "encoding",
     type: "string",
-    validate(value: BufferEncoding) {
-      validateEncoding("input-encoding", value);
+    validate(value: string) {
+      validateEncoding("output-encoding", value, ALLOWED_ENCODINGS);
+    },
+  },
+  "output-bom": {
+    alias: "outputBom",
+    doc: "Indicates whether to write a byte order mark at the start of the output files. If omitted, it's written if the input file starts with one and the output encoding is a Unicode encoding.",
+    negatable: true,
+    type: "boolean",
+  },
+  "line-ending": {
+    alias: "lineEnding",
+    default: "lf",
+    doc: 'The output files line ending: "lf", "crlf", or "preserve" to use the line ending of the first line of the input file.',
+    placeholder: "ending",
+    type: "string",
+    validate(value: string) {
+      validateChoice("line-ending", value, LINE_ENDINGS);
     },
   },
 };
 
-const ALLOWED_ENCODINGS = new Set<BufferEncoding>([
+const ALLOWED_ENCODINGS = new Set<FileEncoding>([
   "ascii",
   "latin1",
   "ucs2",
@@ -149,8 +417,20 @@ const ALLOWED_ENCODINGS = new Set<BufferEncoding>([
   "utf-8",
   "utf16le",
   "utf-16le",
+  "utf-16be",
+  "windows-1252",
+  "iso-8859-15",
+]);
+
+const ALLOWED_INPUT_ENCODINGS = new Set<FileEncoding | "auto">([
+  ...ALLOWED_ENCODINGS,
+  "auto",
 ]);
 
+const LINE_ENDINGS = new Set<LineEnding>(["lf", "crlf", "preserve"]);
+
+const UNPROCESSED_FORMATS = new Set<UnprocessedFormat>(["text", "jsonl"]);
+
 /** Parses the program's arguments. */
 export function parse(argv: readonly string[]): Arguments {
   const alias = Object.entries(ARGUMENT_METADATA_MAP).reduce<
@@ -162,11 +442,24 @@ export function parse(argv: readonly string[]): Arguments {
 
   const def = Object.entries(ARGUMENT_METADATA_MAP).reduce<
     Record<string, unknown>
-  >((obj, [name, { default: def }]) => {
-    obj[name] = def;
+  >((obj, [name, { alias, default: def, negatable }]) => {
+    // minimist defaults booleans to `false` unless they have a default value: use `null` to detect omitted arguments
+    if (negatable) {
+      obj[name] = obj[alias] = null;
+    } else {
+      obj[name] = def;
+    }
+
     return obj;
   }, {});
 
+  // minimist only overwrites `null` defaults of booleans, so negatable aliases must be booleans too
+  const boolean = Object.entries(ARGUMENT_METADATA_MAP)
+    .filter(([, { type }]) => type === "boolean")
+    .flatMap(([name, { alias, negatable }]) =>
+      negatable ? [name, alias] : [name]
+    );
+
   const string = Object.entries(ARGUMENT_METADATA_MAP)
     .filter(([, { type }]) => type === "string")
     .map(([name]) => name);
@@ -178,6 +471,7 @@ export function parse(argv: readonly string[]): Arguments {
    */
   const parsedArgs: Record<string, unknown> = minimist(argv.slice(2), {
     alias,
+    boolean,
     default: def,
     string,
     unknown(arg) {
@@ -204,18 +498,51 @@ export function parse(argv: readonly string[]): Arguments {
   }
 
   delete parsedArgs["_"];
-  for (const name of Object.keys(ARGUMENT_METADATA_MAP)) {
+  for (const [name, { alias, negatable }] of Object.entries(
+    ARGUMENT_METADATA_MAP
+  )) {
     delete parsedArgs[name];
+    if (negatable && parsedArgs[alias] === null) {
+      delete parsedArgs[alias];
+    }
   }
 
   return parsedArgs as unknown as Arguments;
 }
 
+/**
+ * Gets the default value of each optional argument, as applied by {@link parse}. Boolean arguments default to
+ * `false`, unless they're negatable.
+ */
+export function getDefaultArguments(): Omit<
+  Arguments,
+  "inputFilePath" | "outputFilePath"
+> {
+  const result = Object.values(ARGUMENT_METADATA_MAP).reduce<
+    Record<string, unknown>
+  >((obj, { alias, default: def, negatable, type }) => {
+    if (def !== undefined) {
+      obj[alias] = def;
+    } else if (type === "boolean" && !negatable) {
+      obj[alias] = false;
+    }
+
+    return obj;
+  }, {});
+
+  return result as unknown as Omit<
+    Arguments,
+    "inputFilePath" | "outputFilePath"
+  >;
+}
+
 /** Gets the help string. */
 export function getHelp(): string {
   const argSummary = Object.entries(ARGUMENT_METADATA_MAP).map(
-    ([name, { placeholder, required }]) => {
-      let arg = `--${name} {${placeholder}}`;
+    ([name, { negatable, placeholder, required }]) => {
+      let arg = placeholder
+        ? `--${name} {${placeholder}}`
+        : `--${negatable ? "[no-]" : ""}${name}`;
       if (!required) {
         arg = "[" + arg + "]";
       }
@@ -227,7 +554,7 @@ export function getHelp(): string {
   const argDetail = Object.entries(ARGUMENT_METADATA_MAP).map(
     ([name, { default: def, doc, type }]) => {
       let arg = `--${name}: ${doc}`;
-      if (def) {
+      if (def !== undefined) {
         arg += ` Defaults to: ${type === "string" ? `"${def}"` : def}`;
       }
 
@@ -243,14 +570,32 @@ export function getHelp(): string {
   );
 }
 
-function validateEncoding(name: string, value: BufferEncoding): void {
-  if (!ALLOWED_ENCODINGS.has(value)) {
+function validateEncoding(
+  name: string,
+  value: string,
+  allowed: ReadonlySet<string>
+): void {
+  if (!allowed.has(value)) {
     throw new Error(
       `Invalid encoding for argument --${name}. The following encodings are allowed: ${[
-        ...ALLOWED_ENCODINGS,
+        ...allowed,
       ]
         .map((x) => `"${x}"`)
         .join(", ")}`
     );
   }
 }
+
+function validateChoice(
+  name: string,
+  value: string,
+  choices: ReadonlySet<string>
+): void {
+  if (!choices.has(value)) {
+    throw new Error(
+      `Invalid value for --${name}. The value must be one of: ${[...choices]
+        .map((x) => `"${x}"`)
+        .join(", ")}.`
+    );
+  }
+}
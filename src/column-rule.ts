@@ -0,0 +1,173 @@
+import { readFile } from "node:fs/promises";
+
+import type { CardinalityThreshold, ColumnMetadata } from "./file-metadata.js";
+import {
+  getJsonPath,
+  invalidField,
+  validateArray,
+  validateInteger,
+  validateObject,
+  validatePercentage,
+  validateString,
+} from "./json-validation.js";
+
+/**
+ * A user-supplied rule about a column's values, for knowledge that can't be inferred from the data.
+ *
+ * For example, the following rule makes the seventh column an anchor column that matches two uppercase letters
+ * followed by six digits:
+ * ```
+ * { "column": 7, "pattern": "^[A-Z]{2}\\d{6}$" }
+ * ```
+ *
+ * And the following rule lets the `country` column have up to 300 unique values before it's considered unbounded:
+ * ```
+ * { "column": "country", "maxCardinality": 300 }
+ * ```
+ */
+export interface ColumnRule {
+  /** The column name, or its 1-based index. */
+  readonly column: number | string;
+
+  /**
+   * The regular expression that the column values match.
+   * It's not implicitly anchored: use `^` and `$` to match whole values.
+   */
+  readonly pattern?: string;
+
+  /** Overrides the {@link CardinalityThreshold.maxCardinality} of the column. */
+  readonly maxCardinality?: number;
+
+  /** Overrides the {@link CardinalityThreshold.maxRelativeCardinality} of the column. */
+  readonly maxRelativeCardinality?: number;
+}
+
+/** The fields of a {@link ColumnRule} JSON object. */
+const RULE_FIELDS: readonly string[] = [
+  "column",
+  "maxCardinality",
+  "maxRelativeCardinality",
+  "pattern",
+];
+
+/**
+ * Reads the {@link ColumnRule}s from a JSON file that contains an array of rules.
+ * @param filePath The path to the rules file.
+ */
+export async function readColumnRules(
+  filePath: string
+): Promise<readonly ColumnRule[]> {
+  const buffer = await readFile(filePath);
+  return validateArray(JSON.parse(buffer.toString()), "", validateColumnRule);
+}
+
+/**
+ * Applies {@link ColumnRule}s to a list of {@link ColumnMetadata}.
+ * @param columns The columns' metadata.
+ * @param rules The rules to apply.
+ */
+export function applyColumnRules(
+  columns: readonly ColumnMetadata[],
+  rules: readonly ColumnRule[]
+): void {
+  for (const { column, pattern } of rules) {
+    const metadata =
+      typeof column === "number"
+        ? columns[column - 1]
+        : columns.find((x) => x.name === column);
+    if (!metadata) {
+      throw new Error(`Unknown column in rule: ${column}.`);
+    }
+
+    if (pattern !== undefined) {
+      metadata.setPattern(new RegExp(pattern));
+    }
+  }
+}
+
+/**
+ * Gets the {@link CardinalityThreshold} of each column: the default threshold, overridden by the {@link ColumnRule}s
+ * of the column. The rules of unknown columns are ignored.
+ * @param names The column names.
+ * @param rules The rules, if any.
+ * @param defaults The default threshold.
+ */
+export function getCardinalityThresholds(
+  names: readonly string[],
+  rules: readonly ColumnRule[] | undefined,
+  defaults: CardinalityThreshold
+): CardinalityThreshold[] {
+  return names.map((name, i) =>
+    (rules ?? [])
+      .filter(({ column }) => column === name || column === i + 1)
+      .reduce<CardinalityThreshold>(
+        (result, { maxCardinality, maxRelativeCardinality }) => ({
+          maxCardinality: maxCardinality ?? result.maxCardinality,
+          maxRelativeCardinality:
+            maxRelativeCardinality ?? result.maxRelativeCardinality,
+        }),
+        defaults
+      )
+  );
+}
+
+/**
+ * Validates that a JSON value refers to a column: a column name, or a 1-based column index.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ */
+export function validateColumn(value: unknown, path: string): number | string {
+  if (
+    typeof value !== "string" &&
+    !(typeof value === "number" && Number.isInteger(value) && value > 0)
+  ) {
+    invalidField(path, "a column name or a 1-based index", value);
+  }
+
+  return value;
+}
+
+function validateColumnRule(value: unknown, path: string): ColumnRule {
+  const { column, maxCardinality, maxRelativeCardinality, pattern } =
+    validateObject(value, path, RULE_FIELDS);
+  const field = (key: string) => getJsonPath(path, key);
+
+  const result: ColumnRule = {
+    column: validateColumn(column, field("column")),
+    ...(pattern !== undefined && {
+      pattern: validatePattern(pattern, field("pattern")),
+    }),
+    ...(maxCardinality !== undefined && {
+      maxCardinality: validateInteger(maxCardinality, field("maxCardinality")),
+    }),
+    ...(maxRelativeCardinality !== undefined && {
+      maxRelativeCardinality: validatePercentage(
+        maxRelativeCardinality,
+        field("maxRelativeCardinality")
+      ),
+    }),
+  };
+
+  if (Object.keys(result).length === 1) {
+    throw new Error(
+      `Invalid rule: ${path}. It must have a pattern, a maxCardinality or a maxRelativeCardinality.`
+    );
+  }
+
+  return result;
+}
+
+function validatePattern(value: unknown, path: string): string {
+  const pattern = validateString(value, path);
+  try {
+    new RegExp(pattern);
+  } catch (e) {
+    if (e instanceof SyntaxError) {
+      invalidField(path, "a valid regular expression", pattern);
+    }
+
+    throw e;
+  }
+
+  return pattern;
+}
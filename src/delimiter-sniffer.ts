@@ -0,0 +1,172 @@
+import { GetFileLinesInput, getFileLines } from "./file-utils.js";
+import { Tokenizer, TokenizerOptions } from "./tokenizer.js";
+
+/** The delimiters that {@link sniffDelimiter} chooses from. */
+export const DELIMITER_CANDIDATES: readonly string[] = [
+  "|",
+  ",",
+  "\t",
+  ";",
+  "^",
+];
+
+export interface SniffDelimiterInput
+  extends GetFileLinesInput,
+    Omit<TokenizerOptions, "delimiter"> {
+  /** The number of lines to sample from the start of the file. Defaults to `100`. */
+  readonly sampleSize?: number;
+}
+
+/** How consistently a delimiter splits the sampled records. */
+export interface DelimiterCandidate {
+  /** The delimiter. */
+  readonly delimiter: string;
+
+  /** The most frequent number of columns per record. */
+  readonly columns: number;
+
+  /**
+   * The fraction of records with the most frequent number of columns, divided by one plus the variance of the number
+   * of columns. It's between `0` and `1`, and it's `0` if the delimiter doesn't split the records.
+   */
+  readonly score: number;
+}
+
+export interface SniffDelimiterOutput {
+  /** The detected delimiter. */
+  readonly delimiter: string;
+
+  /**
+   * The score difference between the detected delimiter and the next best candidate, between `0` (exclusive) and `1`.
+   * @see {@link DelimiterCandidate.score}
+   */
+  readonly confidence: number;
+
+  /** All the candidates, from best to worst. */
+  readonly candidates: readonly DelimiterCandidate[];
+}
+
+/** The default number of lines to sample. */
+const SAMPLE_SIZE = 100;
+
+/** Scores closer than this are considered equal. */
+const EPSILON = 1e-9;
+
+/**
+ * Detects the delimiter of a file among the {@link DELIMITER_CANDIDATES} by sampling the start of the file. The
+ * delimiter that splits the sampled records into the most consistent number of columns is chosen.
+ *
+ * Throws an error if no candidate splits the records, or if the two best candidates are equally plausible.
+ */
+export async function sniffDelimiter(
+  input: SniffDelimiterInput
+): Promise<SniffDelimiterOutput> {
+  const {
+    decodeEscapes,
+    encoding,
+    escape,
+    filePath,
+    maxRecordLines,
+    quote,
+    sampleSize = SAMPLE_SIZE,
+  } = input;
+
+  const lines: string[] = [];
+  for await (const line of getFileLines({ encoding, filePath })) {
+    if (lines.length === sampleSize) {
+      break;
+    }
+
+    lines.push(line);
+  }
+
+  const candidates = DELIMITER_CANDIDATES.map((delimiter) =>
+    scoreDelimiter(lines, {
+      decodeEscapes,
+      delimiter,
+      escape,
+      maxRecordLines,
+      quote,
+    })
+  ).sort((a, b) => b.score - a.score);
+
+  const [best, second] = candidates;
+  if (best.score < EPSILON) {
+    throw new Error(
+      `Could not detect the delimiter of ${filePath}. None of the candidates splits its lines: ${formatCandidates(
+        candidates
+      )}.`
+    );
+  }
+
+  if (best.score - second.score < EPSILON) {
+    throw new Error(
+      `Could not detect the delimiter of ${filePath}. The best candidates are equally plausible: ${formatCandidates(
+        candidates.filter((x) => best.score - x.score < EPSILON)
+      )}. Specify the delimiter explicitly.`
+    );
+  }
+
+  return {
+    delimiter: best.delimiter,
+    confidence: best.score - second.score,
+    candidates,
+  };
+}
+
+function scoreDelimiter(
+  lines: readonly string[],
+  options: TokenizerOptions & { readonly delimiter: string }
+): DelimiterCandidate {
+  const { delimiter } = options;
+
+  // ignore empty lines, since they have a single column regardless of the delimiter, and records cut short
+  const tokenizer = new Tokenizer(options);
+  const counts: number[] = [];
+  for (const line of lines) {
+    const record = tokenizer.tokenize(line);
+    if (record?.text && !record.truncated) {
+      counts.push(record.tokens.length);
+    }
+  }
+
+  // get the most frequent number of columns, preferring the highest one
+  const frequencies = new Map<number, number>();
+  for (const count of counts) {
+    frequencies.set(count, (frequencies.get(count) ?? 0) + 1);
+  }
+
+  let columns = 1;
+  let frequency = 0;
+  for (const [count, x] of frequencies) {
+    if (x > frequency || (x === frequency && count > columns)) {
+      columns = count;
+      frequency = x;
+    }
+  }
+
+  if (columns === 1) {
+    return { delimiter, columns, score: 0 };
+  }
+
+  const mean = counts.reduce((sum, x) => sum + x, 0) / counts.length;
+  const variance =
+    counts.reduce((sum, x) => sum + (x - mean) ** 2, 0) / counts.length;
+
+  return {
+    delimiter,
+    columns,
+    score: frequency / counts.length / (1 + variance),
+  };
+}
+
+function formatCandidates(candidates: readonly DelimiterCandidate[]): string {
+  return candidates
+    .map(
+      ({ columns, delimiter, score }) =>
+        `${JSON.stringify(
+          delimiter
+        )} (columns: ${columns}, score: ${score.toFixed(2)})`
+    )
+    .join(", ");
+}
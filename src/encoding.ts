@@ -0,0 +1,197 @@
+import { open } from "node:fs/promises";
+
+/** The encodings that aren't supported by {@link Buffer}, and are decoded with {@link TextDecoder} instead. */
+export type TextDecoderEncoding = "iso-8859-15" | "utf-16be" | "windows-1252";
+
+/** A text file encoding. */
+export type FileEncoding = BufferEncoding | TextDecoderEncoding;
+
+export interface DetectEncodingInput {
+  /** The file path. */
+  readonly filePath: string;
+
+  /** The number of bytes to sample from the start of the file. Defaults to `65536`. */
+  readonly sampleSize?: number;
+}
+
+export interface DetectEncodingOutput {
+  /** The detected encoding. */
+  readonly encoding: FileEncoding;
+
+  /** Indicates whether the encoding was detected from the file's byte order mark. */
+  readonly bom: boolean;
+}
+
+/** The encoding that {@link detectEncoding} falls back to when the file isn't valid UTF-8. */
+export const FALLBACK_ENCODING: FileEncoding = "windows-1252";
+
+/** The byte order mark character, which is encoded differently by each Unicode encoding. */
+export const BOM = "\uFEFF";
+
+/** The byte order mark of each encoding that {@link detectEncoding} detects from it. */
+const BOMS: readonly (readonly [FileEncoding, readonly number[]])[] = [
+  ["utf8", [0xef, 0xbb, 0xbf]],
+  ["utf16le", [0xff, 0xfe]],
+  ["utf-16be", [0xfe, 0xff]],
+];
+
+/** The encodings that can represent a {@link BOM}. */
+const UNICODE_ENCODINGS = new Set<FileEncoding>([
+  "ucs2",
+  "ucs-2",
+  "utf8",
+  "utf-8",
+  "utf16le",
+  "utf-16le",
+  "utf-16be",
+]);
+
+/** The default number of bytes to sample. */
+const SAMPLE_SIZE = 65536;
+
+/** The character that replaces the characters that a single-byte encoding can't represent. */
+const REPLACEMENT_BYTE = 0x3f; // ?
+
+/**
+ * The characters of the bytes `0x80` to `0x9f` in `"windows-1252"`, which differ from `"latin1"`. Undefined bytes are
+ * the same as in `"latin1"`. {@link TextDecoder} can't be used, since some Node.js versions decode it as `"latin1"`.
+ */
+const WINDOWS_1252_CHARACTERS =
+  "€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ";
+
+/** The byte of each character in a single-byte {@link TextDecoderEncoding}, built on demand. */
+const SINGLE_BYTE_TABLES = new Map<
+  TextDecoderEncoding,
+  ReadonlyMap<string, number>
+>();
+
+/**
+ * Detects the encoding of a file by sampling its start:
+ * 1. If the file starts with a byte order mark, the encoding is the one of the mark.
+ * 2. Otherwise, if the sample is valid UTF-8, the encoding is `utf8`.
+ * 3. Otherwise, the encoding is the {@link FALLBACK_ENCODING}.
+ */
+export async function detectEncoding(
+  input: DetectEncodingInput
+): Promise<DetectEncodingOutput> {
+  const { filePath, sampleSize = SAMPLE_SIZE } = input;
+  const sample = await readStart(filePath, sampleSize);
+
+  const bomEncoding = getBomEncoding(sample);
+  if (bomEncoding) {
+    return { encoding: bomEncoding, bom: true };
+  }
+
+  // the sample may end in the middle of a character: stream it so the incomplete bytes aren't deemed invalid
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return { encoding: "utf8", bom: false };
+  } catch {
+    return { encoding: FALLBACK_ENCODING, bom: false };
+  }
+}
+
+/**
+ * Reads the byte order mark at the start of a file.
+ * @param filePath The file path.
+ * @returns The encoding of the byte order mark, or `undefined` if the file doesn't start with one.
+ */
+export async function readBom(
+  filePath: string
+): Promise<FileEncoding | undefined> {
+  return getBomEncoding(await readStart(filePath, 3));
+}
+
+/** Indicates whether an encoding can represent a byte order mark. */
+export function isUnicodeEncoding(encoding: FileEncoding): boolean {
+  return UNICODE_ENCODINGS.has(encoding);
+}
+
+/** Indicates whether an encoding is supported by {@link Buffer}. */
+export function isBufferEncoding(
+  encoding: FileEncoding
+): encoding is BufferEncoding {
+  return Buffer.isEncoding(encoding);
+}
+
+/**
+ * Encodes text in any {@link FileEncoding}. The characters that a single-byte encoding can't represent are replaced
+ * with `?`.
+ */
+export function encodeText(text: string, encoding: FileEncoding): Buffer {
+  if (isBufferEncoding(encoding)) {
+    return Buffer.from(text, encoding);
+  }
+
+  if (encoding === "utf-16be") {
+    return Buffer.from(text, "utf16le").swap16();
+  }
+
+  const table = getSingleByteTable(encoding as TextDecoderEncoding);
+  return Buffer.from(Array.from(text, (x) => table.get(x) ?? REPLACEMENT_BYTE));
+}
+
+/** Decodes the complete text of some bytes in any {@link FileEncoding}. */
+export function decodeText(bytes: Buffer, encoding: FileEncoding): string {
+  if (isBufferEncoding(encoding)) {
+    return bytes.toString(encoding);
+  }
+
+  const decode = createDecoder(encoding);
+  return decode(bytes) + decode();
+}
+
+/**
+ * Creates a function that decodes a stream of bytes in a {@link TextDecoderEncoding}. Calling it without bytes flushes
+ * any incomplete character.
+ */
+export function createDecoder(
+  encoding: TextDecoderEncoding
+): (bytes?: Uint8Array) => string {
+  if (encoding === "windows-1252") {
+    return (bytes) =>
+      bytes
+        ? Buffer.from(bytes)
+            .toString("latin1")
+            .replace(
+              /[\x80-\x9f]/g,
+              (x) => WINDOWS_1252_CHARACTERS[x.charCodeAt(0) - 0x80]
+            )
+        : "";
+  }
+
+  const decoder = new TextDecoder(encoding);
+  return (bytes) =>
+    bytes ? decoder.decode(bytes, { stream: true }) : decoder.decode();
+}
+
+function getBomEncoding(bytes: Uint8Array): FileEncoding | undefined {
+  return BOMS.find(([, bom]) => bom.every((x, i) => bytes[i] === x))?.[0];
+}
+
+async function readStart(filePath: string, size: number): Promise<Buffer> {
+  const file = await open(filePath);
+  try {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(size), 0, size);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+function getSingleByteTable(
+  encoding: TextDecoderEncoding
+): ReadonlyMap<string, number> {
+  let table = SINGLE_BYTE_TABLES.get(encoding);
+  if (!table) {
+    // the decoder knows the character of each byte, so invert it
+    const decode = createDecoder(encoding);
+    const characters = Array.from({ length: 256 }, (_, i) =>
+      decode(Uint8Array.of(i))
+    );
+    table = new Map(characters.map((x, i) => [x, i]));
+    SINGLE_BYTE_TABLES.set(encoding, table);
+  }
+
+  return table;
+}
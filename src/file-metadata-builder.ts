@@ -0,0 +1,248 @@
+import { ColumnRule, getCardinalityThresholds } from "./column-rule.js";
+import {
+  CardinalityThreshold,
+  ColumnMetadata,
+  FileMetadata,
+  hasHeader,
+} from "./file-metadata.js";
+import type { LineParser } from "./line-parser.js";
+import { Tokenizer, TokenizerOptions } from "./tokenizer.js";
+
+export interface FileMetadataBuilderOptions extends TokenizerOptions {
+  /** The column names. If omitted, they're taken from the header, or named `col_1`, `col_2`, etc. */
+  readonly columnNames?: readonly string[];
+  /**
+   * Indicates whether the first record is a header, which is not processed as a row. If omitted, it's only a header
+   * if neither the number of columns nor the column names are specified.
+   */
+  readonly header?: boolean;
+  /** The maximum number of unique values a column can have before it's considered unbounded. */
+  readonly maxCardinality: number;
+  /**
+   * The maximum percentage of unique values relative to the number of values a column can have before it's
+   * considered unbounded. If omitted, only the {@link maxCardinality} is used.
+   */
+  readonly maxRelativeCardinality?: number;
+  /** The number of columns per row in the file. It omitted, it's auto-detected from the first line. */
+  readonly numberOfColumns?: number;
+  /** The {@link ColumnRule}s of the columns, which may override their cardinality thresholds. */
+  readonly rules?: readonly ColumnRule[];
+}
+
+/**
+ * Builds the {@link FileMetadata} of a delimited file incrementally, one line at a time, so that the lines can come
+ * from any source. Builders of different parts of a file can be merged.
+ */
+export class FileMetadataBuilder {
+  readonly #defaultThreshold: CardinalityThreshold;
+  readonly #numberOfColumns?: number;
+  readonly #rules?: readonly ColumnRule[];
+  readonly #tokenizer: Tokenizer;
+
+  #columns?: ColumnMetadata[];
+  #header: boolean;
+
+  /**
+   * Creates a new instance of the {@link FileMetadataBuilder} class.
+   * @param options The {@link FileMetadataBuilderOptions}.
+   */
+  constructor(options: FileMetadataBuilderOptions) {
+    const {
+      columnNames,
+      decodeEscapes,
+      delimiter,
+      escape,
+      maxCardinality,
+      maxRecordLines,
+      maxRelativeCardinality,
+      numberOfColumns,
+      quote,
+      rules,
+    } = options;
+
+    if (
+      columnNames &&
+      numberOfColumns !== undefined &&
+      columnNames.length !== numberOfColumns
+    ) {
+      throw new Error(
+        `The number of column names (${columnNames.length}) doesn't match the number of columns (${numberOfColumns}).`
+      );
+    }
+
+    this.#defaultThreshold = {
+      maxCardinality,
+      maxRelativeCardinality: maxRelativeCardinality ?? null,
+    };
+    this.#numberOfColumns = numberOfColumns;
+    this.#rules = rules;
+    this.#tokenizer = new Tokenizer({
+      decodeEscapes,
+      delimiter,
+      escape,
+      maxRecordLines,
+      quote,
+    });
+    this.#header = hasHeader(options);
+
+    // if the column names or the number of columns are specified, initialize columns
+    if (columnNames) {
+      this.#setColumns(columnNames);
+    } else if (numberOfColumns && !this.#header) {
+      this.#setColumns(getDefaultNames(numberOfColumns));
+    }
+  }
+
+  /** The column names, or `undefined` until they're known, i.e. until the header or the first row is processed. */
+  get columnNames(): readonly string[] | undefined {
+    return this.#columns?.map((x) => x.name);
+  }
+
+  /**
+   * Builds the metadata of the lines of an iterable.
+   * @param lines The lines.
+   * @param options The {@link FileMetadataBuilderOptions}.
+   * @returns The builder, which can be built or merged with other builders.
+   */
+  static async fromAsyncIterable(
+    lines: AsyncIterable<string> | Iterable<string>,
+    options: FileMetadataBuilderOptions
+  ): Promise<FileMetadataBuilder> {
+    const result = new FileMetadataBuilder(options);
+    for await (const line of lines) {
+      result.add(line);
+    }
+
+    return result;
+  }
+
+  /**
+   * Processes the next line. Rows with a different number of columns than the first row, or than the header, are not
+   * processed.
+   * @param line The line to process.
+   */
+  add(line: string): FileMetadataBuilder {
+    const record = this.#tokenizer.tokenize(line);
+
+    // if a quoted value or an escaped line break spans lines, wait for the rest of the record
+    if (!record) {
+      return this;
+    }
+
+    const colData = record.tokens;
+
+    // keep the header out of the statistics, but name the columns after it if they're not named yet
+    if (this.#header) {
+      this.#header = false;
+      if (!this.#columns) {
+        const numberOfColumns = this.#numberOfColumns;
+        if (numberOfColumns && colData.length !== numberOfColumns) {
+          throw new Error(
+            `The number of header columns (${colData.length}) doesn't match the number of columns (${numberOfColumns}).`
+          );
+        }
+
+        this.#setColumns(colData);
+      }
+
+      return this;
+    }
+
+    // keep records that were cut short, e.g. by a quote that is never closed, out of the statistics
+    if (record.truncated) {
+      return this;
+    }
+
+    return this.addRow(colData);
+  }
+
+  /**
+   * Processes the column values of a row, e.g. of a row repaired by a {@link LineParser}. Rows with a different number
+   * of columns than the first row, or than the header, are not processed.
+   * @param values The column values.
+   */
+  addRow(values: readonly string[]): FileMetadataBuilder {
+    // if the number of columns is not known, get it from the first row
+    const columns =
+      this.#columns ?? this.#setColumns(getDefaultNames(values.length));
+
+    // only process if line contains expected number of columns
+    if (values.length === columns.length) {
+      for (let i = 0; i < columns.length; ++i) {
+        columns[i].add(values[i], this.#getMaxCardinality(columns[i]));
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Merges the metadata of another builder, e.g. of another part of the same file, into this one. The columns keep
+   * the names of this builder, unless it has no columns yet.
+   *
+   * Throws an error if the builders have a different number of columns.
+   * @param other The other builder. It's not modified.
+   */
+  merge(other: FileMetadataBuilder): FileMetadataBuilder {
+    const otherColumns = other.#columns;
+    if (!otherColumns) {
+      return this;
+    }
+
+    const columns =
+      this.#columns ?? this.#setColumns(otherColumns.map((x) => x.name));
+    if (columns.length !== otherColumns.length) {
+      throw new Error(
+        `Can't merge the metadata of ${otherColumns.length} columns into the metadata of ${columns.length} columns.`
+      );
+    }
+
+    columns.forEach((x, i) =>
+      x.merge(otherColumns[i], this.#getMaxCardinality(x))
+    );
+
+    return this;
+  }
+
+  /**
+   * Builds the {@link FileMetadata} of the lines processed so far. A record that is still incomplete, e.g. with an
+   * unclosed quoted value, is not processed. The builder can still process more lines afterwards.
+   */
+  build(): FileMetadata {
+    const columns =
+      this.#columns ??
+      this.#createColumns(getDefaultNames(this.#numberOfColumns ?? 0));
+
+    // copy the columns, so that processing more lines doesn't change the result
+    return new FileMetadata(
+      columns.map((x) =>
+        new ColumnMetadata(x.name).merge(x, this.#getMaxCardinality(x))
+      )
+    );
+  }
+
+  /** Creates columns with their cardinality thresholds. */
+  #createColumns(names: readonly string[]): ColumnMetadata[] {
+    const thresholds = getCardinalityThresholds(
+      names,
+      this.#rules,
+      this.#defaultThreshold
+    );
+    return names.map((x, i) =>
+      new ColumnMetadata(x).setCardinalityThreshold(thresholds[i])
+    );
+  }
+
+  #getMaxCardinality(column: ColumnMetadata): number {
+    return column.maxCardinality ?? this.#defaultThreshold.maxCardinality;
+  }
+
+  #setColumns(names: readonly string[]): ColumnMetadata[] {
+    this.#columns = this.#createColumns(names);
+    return this.#columns;
+  }
+}
+
+function getDefaultNames(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `col_${i + 1}`);
+}
@@ -1,17 +1,112 @@
-import { readFile, writeFile } from "node:fs/promises";
+import { readFile, stat, writeFile } from "node:fs/promises";
 
 import { AnchorColumn, getAnchorColumns } from "./anchor-column.js";
-import { GetFileLinesInput, getFileLines } from "./file-utils.js";
+import {
+  ColumnRule,
+  applyColumnRules,
+  getCardinalityThresholds,
+} from "./column-rule.js";
+import type { FileEncoding } from "./encoding.js";
+import {
+  FileMetadataBuilder,
+  FileMetadataBuilderOptions,
+} from "./file-metadata-builder.js";
+import { GetFileLinesInput, getFileHash, getFileLines } from "./file-utils.js";
+import {
+  getJsonPath,
+  invalidField,
+  validateArray,
+  validateBoolean,
+  validateInteger,
+  validateNullable,
+  validateObject,
+  validateOneOf,
+  validatePercentage,
+  validateRecord,
+  validateString,
+} from "./json-validation.js";
+import {
+  METADATA_VERSION,
+  migrateMetadataJson,
+} from "./metadata-migrations.js";
+import {
+  MetadataSample,
+  SAMPLE_STRATEGIES,
+  getSampleLines,
+} from "./metadata-sample.js";
+import { buildMetadataInParallel } from "./parallel-metadata.js";
+import { Tokenizer, TokenizerOptions } from "./tokenizer.js";
+import {
+  VALUE_TYPES,
+  ValueType,
+  getCommonValueType,
+  inferValueType,
+  matchesValueType,
+} from "./value-type.js";
 
-export interface CreateInput extends GetFileLinesInput {
-  /** The column delimiter. */
-  readonly delimiter: string;
+export interface CreateInput
+  extends GetFileLinesInput,
+    FileMetadataBuilderOptions {
   /** The file path to the cache of the metadata. */
   readonly metadataFilePath?: string;
-  /** The maximum number of unique values a column can have before it's considered unbounded. */
+  /** Indicates whether to ignore the cache of the metadata and rebuild it. */
+  readonly rebuild?: boolean;
+  /** The sample of the file's lines to build the metadata from. If omitted, all the lines are used. */
+  readonly sample?: MetadataSample;
+  /**
+   * The maximum number of worker threads that build the metadata of ranges of the file in parallel. Defaults to `1`,
+   * i.e. the metadata is built in the main thread. Ignored if {@link sample} is specified.
+   */
+  readonly workers?: number;
+}
+
+/** The thresholds of the unique values of a column, above which it's considered unbounded. */
+export interface CardinalityThreshold {
+  /** The maximum number of unique values. */
+  readonly maxCardinality: number;
+  /** The maximum percentage of unique values relative to the number of values. `null` if there's none. */
+  readonly maxRelativeCardinality: number | null;
+}
+
+/** Identifies the contents of a file. */
+export interface FileIdentity {
+  /**
+   * The SHA-256 hash of the file's contents, in hexadecimal. `null` if the metadata was built from a
+   * {@link CreateInput.sample}, so that the whole file isn't read only to hash it: changes are then detected from the
+   * file's size and modification time.
+   */
+  readonly hash: string | null;
+  /** The file's last modification time, in ISO 8601 format. */
+  readonly mtime: string;
+  /** The file's size in bytes. */
+  readonly size: number;
+}
+
+/** The {@link CreateInput} parameters that affect the metadata, with defaults applied. */
+export interface BuildParameters {
+  readonly columnNames: readonly string[] | null;
+  readonly decodeEscapes: boolean;
+  /** The delimiter, or the source of the delimiter regular expression. */
+  readonly delimiter: string;
+  readonly delimiterRegex: boolean;
+  readonly encoding: FileEncoding;
+  readonly escape: string | null;
+  readonly header: boolean;
   readonly maxCardinality: number;
-  /** The number of columns per row in the file. It omitted, it's auto-detected from the first line. */
-  readonly numberOfColumns?: number;
+  /** The maximum number of lines a record can span, or `null` if there's none or if records can't span lines. */
+  readonly maxRecordLines: number | null;
+  readonly maxRelativeCardinality: number | null;
+  readonly numberOfColumns: number | null;
+  readonly quote: string | null;
+  readonly sample: MetadataSample | null;
+}
+
+/** Describes what the metadata was built from, so that a stale cache of the metadata can be detected. */
+export interface MetadataSource {
+  /** The file the metadata was built from. */
+  readonly file: FileIdentity;
+  /** The parameters the metadata was built with. */
+  readonly parameters: BuildParameters;
 }
 
 /** Contains the metadata of a delimited file. */
@@ -21,57 +116,60 @@ export class FileMetadata {
   /**
    * Creates a new instance of the {@link FileMetadata} class.
    * @param columns The columns' metadata.
+   * @param source What the metadata was built from. `null` if unknown.
    */
-  constructor(readonly columns: readonly ColumnMetadata[]) {
+  constructor(
+    readonly columns: readonly ColumnMetadata[],
+    readonly source: MetadataSource | null = null
+  ) {
     this.anchorColumns = getAnchorColumns(columns);
   }
 
-  /** Create a new instance of {@link FileMetadata}. */
+  /**
+   * Create a new instance of {@link FileMetadata} from a file with a {@link FileMetadataBuilder}.
+   * The {@link CreateInput.rules} are applied to both the created and the cached metadata.
+   *
+   * The cache is only used if it was built from a file with the same contents and with the same
+   * {@link BuildParameters}. Otherwise, an error is thrown unless {@link CreateInput.rebuild} is specified. The
+   * contents of a sampled file are only compared by size and modification time.
+   */
   static async create(input: CreateInput): Promise<FileMetadata> {
-    const {
-      delimiter,
-      encoding,
-      filePath,
-      maxCardinality,
-      metadataFilePath,
-      numberOfColumns,
-    } = input;
+    const { filePath, metadataFilePath, rebuild, rules } = input;
 
     // attempt to get the result from the cache
     const cachedResult =
-      metadataFilePath && (await FileMetadata.#getCache(metadataFilePath));
+      metadataFilePath && !rebuild
+        ? await FileMetadata.#getCache(metadataFilePath)
+        : null;
     if (cachedResult) {
-      return cachedResult;
-    }
-
-    // if number of columns specified, initialize columns
-    let columns: ColumnMetadata[] | undefined;
-    if (numberOfColumns) {
-      columns = [];
-      for (let i = 1; i <= numberOfColumns; ++i) {
-        columns.push(new ColumnMetadata(`col_${i}`));
+      await FileMetadata.#validateCache(cachedResult, input);
+      if (!rules?.length) {
+        return cachedResult;
       }
     }
 
-    for await (const line of getFileLines({ encoding, filePath })) {
-      const colData = line.split(delimiter);
+    let columns: ColumnMetadata[];
+    let source: MetadataSource | null;
+    if (cachedResult) {
+      columns = [...cachedResult.columns];
+      source = cachedResult.source;
+    } else {
+      // identify the file before reading it, so that changes while building are detected later
+      source = metadataFilePath
+        ? {
+            file: await getFileIdentity(filePath, !input.sample),
+            parameters: getBuildParameters(input),
+          }
+        : null;
+      columns = [...(await FileMetadata.#build(input)).columns];
+    }
 
-      // if number of columns not specified, get them from first line
-      if (!columns) {
-        columns = [];
-        for (const col of colData) {
-          columns.push(new ColumnMetadata(col));
-        }
-      } else if (colData.length === columns.length) {
-        // only process if line contains expected number of columns
-        for (let i = 0; i < columns.length; ++i) {
-          columns[i].add(colData[i], maxCardinality);
-        }
-      }
+    if (rules) {
+      applyColumnRules(columns, rules);
     }
 
     // set cache
-    const result = new FileMetadata(columns ?? []);
+    const result = new FileMetadata(columns, source);
     if (metadataFilePath) {
       await FileMetadata.#setCache(metadataFilePath, result);
     }
@@ -82,16 +180,45 @@ export class FileMetadata {
   /** Invoked by {@link JSON.stringify}. */
   toJSON(): Record<string, unknown> {
     return {
+      version: METADATA_VERSION,
       columns: this.columns.map((x) => x.toJSON()),
+      source: this.source ?? undefined,
     };
   }
 
-  static #fromJson(obj: Record<string, unknown>): FileMetadata {
-    if (!Array.isArray(obj.columns)) {
-      missingOrInvalidField("columns");
+  static async #build(input: CreateInput): Promise<FileMetadata> {
+    const { sample, workers = 1 } = input;
+    if (!sample && workers > 1) {
+      return buildMetadataInParallel({ ...input, workers });
     }
 
-    return new FileMetadata(obj.columns.map((x) => ColumnMetadata.fromJson(x)));
+    const builder = await FileMetadataBuilder.fromAsyncIterable(
+      sample
+        ? getSampleLines({
+            ...input,
+            leadingLines: hasHeader(input) ? 1 : 0,
+            sample,
+          })
+        : getFileLines(input),
+      input
+    );
+
+    return builder.build();
+  }
+
+  static #fromJson(json: unknown): FileMetadata {
+    const { columns, source } = validateObject(migrateMetadataJson(json), "", [
+      "columns",
+      "source",
+      "version",
+    ]);
+
+    return new FileMetadata(
+      validateArray(columns, "columns", (x, path) =>
+        ColumnMetadata.fromJson(x, path)
+      ),
+      source === undefined ? null : validateMetadataSource(source, "source")
+    );
   }
 
   static async #getCache(filePath: string): Promise<FileMetadata | null> {
@@ -119,13 +246,116 @@ export class FileMetadata {
   ): Promise<void> {
     await writeFile(filePath, JSON.stringify(metadata.toJSON(), null, 2));
   }
+
+  static async #validateCache(
+    metadata: FileMetadata,
+    input: CreateInput
+  ): Promise<void> {
+    const { filePath, metadataFilePath } = input;
+    const stale = (reason: string): never => {
+      throw new Error(
+        `Stale metadata file: ${metadataFilePath}. ${reason} Rebuild it or use another metadata file.`
+      );
+    };
+
+    const { source } = metadata;
+    if (!source) {
+      return stale("It doesn't record the file it was built from.");
+    }
+
+    const parameters = getBuildParameters(input);
+    for (const key of Object.keys(parameters) as (keyof BuildParameters)[]) {
+      if (
+        JSON.stringify(source.parameters[key]) !==
+        JSON.stringify(parameters[key])
+      ) {
+        stale(
+          `It was built with ${key} ${JSON.stringify(
+            source.parameters[key]
+          )} instead of ${JSON.stringify(parameters[key])}.`
+        );
+      }
+    }
+
+    // the rules may override the cardinality thresholds of each column
+    const { maxCardinality, maxRelativeCardinality } = parameters;
+    const thresholds = getCardinalityThresholds(
+      metadata.columns.map((x) => x.name),
+      input.rules,
+      { maxCardinality, maxRelativeCardinality }
+    );
+    metadata.columns.forEach((x, i) => {
+      const threshold = {
+        maxCardinality: x.maxCardinality,
+        maxRelativeCardinality: x.maxRelativeCardinality,
+      };
+      if (JSON.stringify(threshold) !== JSON.stringify(thresholds[i])) {
+        stale(
+          `It was built with the cardinality threshold ${JSON.stringify(
+            threshold
+          )} of column ${x.name} instead of ${JSON.stringify(thresholds[i])}.`
+        );
+      }
+    });
+
+    // only hash the file if it may have changed, and if it was hashed
+    const { hash } = source.file;
+    const { mtime, size } = await stat(filePath);
+    if (
+      size !== source.file.size ||
+      (mtime.toISOString() !== source.file.mtime &&
+        (hash === null || (await getFileHash(filePath)) !== hash))
+    ) {
+      stale(`It was built from a different version of ${filePath}.`);
+    }
+  }
 }
 
+/** A class of characters observed in a column's values. */
+export type CharacterClass = "digit" | "letter" | "symbol" | "whitespace";
+
+const CHARACTER_CLASSES: ReadonlySet<CharacterClass> = new Set<CharacterClass>([
+  "digit",
+  "letter",
+  "symbol",
+  "whitespace",
+]);
+
+/** The unique values of an unbounded column. */
+const NO_VALUES: ReadonlySet<string> = new Set<string>();
+
+/** The fields of a {@link ColumnMetadata} JSON object. */
+const COLUMN_FIELDS: readonly string[] = [
+  "anchor",
+  "cardinality",
+  "characterClasses",
+  "count",
+  "lengths",
+  "maxCardinality",
+  "maxLength",
+  "maxRelativeCardinality",
+  "name",
+  "p50Length",
+  "p99Length",
+  "pattern",
+  "unbounded",
+  "uniqueValues",
+  "valueTypes",
+];
+
 /** Contains the metadata of a delimited file column. */
 export class ColumnMetadata {
+  #anchor = true;
+  #characterClasses = new Set<CharacterClass>();
+  #count = 0;
+  #lengths = new Map<number, number>();
+  #maxCardinality: number | null = null;
   #maxLength = 0;
+  #maxRelativeCardinality: number | null = null;
+  #pattern: RegExp | null = null;
   #unbounded = false;
   #uniqueValues = new Set<string>();
+  #valueTypes = new Set<ValueType>();
 
   /**
    * Creates a new instance of the {@link ColumnMetadata} class.
@@ -136,7 +366,42 @@ export class ColumnMetadata {
 
   /** The column's cardinality. */
   get cardinality(): number | null {
-    return this.#unbounded ? null : this.#uniqueValues.size;
+    return this.unbounded ? null : this.#uniqueValues.size;
+  }
+
+  /** The classes of the characters present in the column. */
+  get characterClasses(): ReadonlySet<CharacterClass> {
+    return this.#characterClasses;
+  }
+
+  /** The number of values processed. */
+  get count(): number {
+    return this.#count;
+  }
+
+  /**
+   * Whether the column can be used as an anchor column: either it's bounded, it has a
+   * {@link ColumnMetadata.pattern}, or all its values have the same {@link ColumnMetadata.valueType}. Unless it was
+   * excluded with {@link ColumnMetadata.setAnchor}.
+   */
+  get isAnchor(): boolean {
+    return (
+      this.#anchor &&
+      (!this.unbounded || this.#pattern !== null || this.valueType !== null)
+    );
+  }
+
+  /** The number of processed values of each length, indexed by length. */
+  get lengths(): ReadonlyMap<number, number> {
+    return this.#lengths;
+  }
+
+  /**
+   * The maximum number of unique values the column was built with, above which it's unbounded.
+   * `null` if unknown.
+   */
+  get maxCardinality(): number | null {
+    return this.#maxCardinality;
   }
 
   /** The maximum length of the column. */
@@ -144,41 +409,189 @@ export class ColumnMetadata {
     return this.#maxLength;
   }
 
-  /** Whether the column is unbounded. */
+  /**
+   * The maximum percentage of unique values relative to the number of values, above which the column is unbounded.
+   * `null` if there's none.
+   */
+  get maxRelativeCardinality(): number | null {
+    return this.#maxRelativeCardinality;
+  }
+
+  /**
+   * The median length of the column.
+   * `null` if there's no length distribution.
+   */
+  get p50Length(): number | null {
+    return this.getLengthPercentile(50);
+  }
+
+  /**
+   * The 99th percentile length of the column.
+   * `null` if there's no length distribution.
+   */
+  get p99Length(): number | null {
+    return this.getLengthPercentile(99);
+  }
+
+  /**
+   * The user-supplied regular expression that the column values match.
+   * `null` if there's none.
+   */
+  get pattern(): RegExp | null {
+    return this.#pattern;
+  }
+
+  /**
+   * Whether the column is unbounded: it has more unique values than {@link ColumnMetadata.maxCardinality}, or a larger
+   * percentage of unique values than {@link ColumnMetadata.maxRelativeCardinality}.
+   */
   get unbounded(): boolean {
-    return this.#unbounded;
+    const maxRelativeCardinality = this.#maxRelativeCardinality;
+    return (
+      this.#unbounded ||
+      (maxRelativeCardinality !== null &&
+        this.#uniqueValues.size * 100 > this.#count * maxRelativeCardinality)
+    );
   }
 
-  /** The unique values present in the column. */
+  /** The unique values present in the column. Empty if it's unbounded. */
   get uniqueValues(): ReadonlySet<string> {
-    return this.#uniqueValues;
+    return this.unbounded ? NO_VALUES : this.#uniqueValues;
+  }
+
+  /**
+   * The {@link ValueType} that all the column values match, ignoring empty values.
+   * `null` if there's no such type.
+   */
+  get valueType(): ValueType | null {
+    return getCommonValueType(this.#valueTypes);
   }
 
-  /** Creates a new instance of the {@link ColumnMetadata} class from JSON object. */
-  static fromJson(obj: Record<string, unknown>): ColumnMetadata {
-    if (typeof obj.maxLength !== "number") {
-      missingOrInvalidField("maxLength");
+  /** The inferred {@link ValueType}s of the values present in the column. */
+  get valueTypes(): ReadonlySet<ValueType> {
+    return this.#valueTypes;
+  }
+
+  /**
+   * Creates a new instance of the {@link ColumnMetadata} class from JSON object.
+   * @param obj The JSON object.
+   * @param path The JSON path of the object, used in validation errors.
+   */
+  static fromJson(obj: unknown, path = ""): ColumnMetadata {
+    const {
+      anchor,
+      cardinality,
+      characterClasses,
+      count,
+      lengths,
+      maxCardinality,
+      maxLength,
+      maxRelativeCardinality,
+      name,
+      p50Length,
+      p99Length,
+      pattern,
+      unbounded,
+      uniqueValues,
+      valueTypes,
+    } = validateObject(obj, path, COLUMN_FIELDS);
+    const field = (key: string) => getJsonPath(path, key);
+
+    const result = new ColumnMetadata(validateString(name, field("name")));
+    result.#maxLength = validateInteger(maxLength, field("maxLength"));
+    result.#unbounded = validateBoolean(unbounded, field("unbounded"));
+    result.#uniqueValues = new Set(
+      validateArray(uniqueValues, field("uniqueValues"), validateString)
+    );
+
+    if (anchor !== undefined) {
+      result.#anchor = validateBoolean(anchor, field("anchor"));
     }
 
-    if (typeof obj.name !== "string") {
-      missingOrInvalidField("name");
+    if (characterClasses !== undefined) {
+      result.#characterClasses = new Set(
+        validateArray(characterClasses, field("characterClasses"), (x, p) =>
+          validateOneOf(x, p, CHARACTER_CLASSES)
+        )
+      );
     }
 
-    if (typeof obj.unbounded !== "boolean") {
-      missingOrInvalidField("unbounded");
+    if (count !== undefined) {
+      result.#count = validateInteger(count, field("count"));
     }
 
-    if (
-      !Array.isArray(obj.uniqueValues) ||
-      obj.uniqueValues.some((x) => typeof x !== "string")
-    ) {
-      missingOrInvalidField("uniqueValues");
+    if (lengths !== undefined) {
+      const entries = Object.entries(
+        validateRecord(lengths, field("lengths"), (x, p) =>
+          validateInteger(x, p, 1)
+        )
+      );
+      for (const [length] of entries) {
+        if (!/^\d+$/.test(length)) {
+          invalidField(
+            getJsonPath(field("lengths"), length),
+            "a non-negative integer field name",
+            length
+          );
+        }
+      }
+
+      result.#lengths = new Map(entries.map(([k, v]) => [Number(k), v]));
+    }
+
+    if (maxCardinality !== undefined) {
+      result.#maxCardinality = validateInteger(
+        maxCardinality,
+        field("maxCardinality")
+      );
     }
 
-    const result = new ColumnMetadata(obj.name);
-    result.#maxLength = obj.maxLength;
-    result.#unbounded = obj.unbounded;
-    result.#uniqueValues = new Set(obj.uniqueValues);
+    if (maxRelativeCardinality !== undefined) {
+      result.#maxRelativeCardinality = validatePercentage(
+        maxRelativeCardinality,
+        field("maxRelativeCardinality")
+      );
+    }
+
+    // the length percentiles are derived and informative only
+    if (p50Length !== undefined) {
+      validateInteger(p50Length, field("p50Length"));
+    }
+
+    if (p99Length !== undefined) {
+      validateInteger(p99Length, field("p99Length"));
+    }
+
+    if (pattern !== undefined) {
+      try {
+        result.#pattern = new RegExp(validateString(pattern, field("pattern")));
+      } catch (e) {
+        if (e instanceof SyntaxError) {
+          invalidField(field("pattern"), "a valid regular expression", pattern);
+        }
+
+        throw e;
+      }
+    }
+
+    if (valueTypes !== undefined) {
+      result.#valueTypes = new Set(
+        validateArray(valueTypes, field("valueTypes"), (x, p) =>
+          validateOneOf(x, p, VALUE_TYPES)
+        )
+      );
+    }
+
+    // the cardinality is derived, but it must be consistent if present
+    if (cardinality !== undefined && cardinality !== result.cardinality) {
+      invalidField(
+        field("cardinality"),
+        result.unbounded
+          ? "null, since the column is unbounded"
+          : `${result.cardinality}, the number of unique values`,
+        cardinality
+      );
+    }
 
     return result;
   }
@@ -189,6 +602,16 @@ export class ColumnMetadata {
    * @param maxCardinality The maximum number of unique values a column can have before it's considered unbounded.
    */
   add(value: string, maxCardinality: number): ColumnMetadata {
+    ++this.#count;
+    this.#maxCardinality = maxCardinality;
+
+    for (const characterClass of getCharacterClasses(value)) {
+      this.#characterClasses.add(characterClass);
+    }
+
+    this.#valueTypes.add(inferValueType(value));
+    this.#lengths.set(value.length, (this.#lengths.get(value.length) ?? 0) + 1);
+
     if (this.#maxLength < value.length) {
       this.#maxLength = value.length;
     }
@@ -204,18 +627,482 @@ export class ColumnMetadata {
     return this;
   }
 
+  /**
+   * Adds values to the unique values of a bounded column, as if they had been processed, but without updating the
+   * other statistics.
+   * @param values The values to add.
+   */
+  addUniqueValues(values: Iterable<string>): ColumnMetadata {
+    for (const value of values) {
+      this.#uniqueValues.add(value);
+    }
+
+    return this;
+  }
+
+  /**
+   * Creates a copy of the column, e.g. to override it without modifying the original.
+   * @param name The name of the copy. Defaults to the name of the column.
+   */
+  copy(name = this.name): ColumnMetadata {
+    const result = new ColumnMetadata(name);
+    result.#anchor = this.#anchor;
+    result.#characterClasses = new Set(this.#characterClasses);
+    result.#count = this.#count;
+    result.#lengths = new Map(this.#lengths);
+    result.#maxCardinality = this.#maxCardinality;
+    result.#maxLength = this.#maxLength;
+    result.#maxRelativeCardinality = this.#maxRelativeCardinality;
+    result.#pattern = this.#pattern;
+    result.#unbounded = this.#unbounded;
+    result.#uniqueValues = new Set(this.#uniqueValues);
+    result.#valueTypes = new Set(this.#valueTypes);
+    return result;
+  }
+
+  /**
+   * Removes values from the unique values of a bounded column, so that they no longer match it.
+   * @param values The values to remove.
+   */
+  deleteUniqueValues(values: Iterable<string>): ColumnMetadata {
+    for (const value of values) {
+      this.#uniqueValues.delete(value);
+    }
+
+    return this;
+  }
+
+  /**
+   * Merges the statistics of another column into this one, as if its values had been processed by this column. The
+   * pattern and the {@link ColumnMetadata.maxRelativeCardinality} of this column are kept, unless it has none.
+   * @param other The other column. It's not modified.
+   * @param maxCardinality The maximum number of unique values a column can have before it's considered unbounded.
+   */
+  merge(other: ColumnMetadata, maxCardinality: number): ColumnMetadata {
+    this.#count += other.#count;
+    this.#maxCardinality = maxCardinality;
+    this.#maxRelativeCardinality ??= other.#maxRelativeCardinality;
+
+    for (const characterClass of other.#characterClasses) {
+      this.#characterClasses.add(characterClass);
+    }
+
+    for (const valueType of other.#valueTypes) {
+      this.#valueTypes.add(valueType);
+    }
+
+    for (const [length, count] of other.#lengths) {
+      this.#lengths.set(length, (this.#lengths.get(length) ?? 0) + count);
+    }
+
+    if (this.#maxLength < other.#maxLength) {
+      this.#maxLength = other.#maxLength;
+    }
+
+    this.#pattern ??= other.#pattern;
+
+    // a column is unbounded if either part has too many unique values, or if both have too many together
+    if (!this.#unbounded) {
+      if (other.#unbounded) {
+        this.#unbounded = true;
+        this.#uniqueValues.clear();
+      } else {
+        for (const value of other.#uniqueValues) {
+          this.#uniqueValues.add(value);
+        }
+
+        if (this.#uniqueValues.size > maxCardinality) {
+          this.#unbounded = true;
+          this.#uniqueValues.clear();
+        }
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Gets the smallest length that is greater than or equal to the specified percentage of the column's lengths.
+   * Returns `null` if there's no length distribution.
+   * @param percentile The percentile, between `0` and `100`.
+   */
+  getLengthPercentile(percentile: number): number | null {
+    const total = this.#sumLengthCounts(() => true);
+    if (!total) {
+      return null;
+    }
+
+    let sum = 0;
+    for (const length of [...this.#lengths.keys()].sort((a, b) => a - b)) {
+      sum += this.#lengths.get(length) ?? 0;
+      if (sum * 100 >= total * percentile) {
+        return length;
+      }
+    }
+
+    return this.#maxLength;
+  }
+
+  /**
+   * Whether a value matches the column when used as an anchor column:
+   * - If the column has a {@link ColumnMetadata.pattern} and the value matches it.
+   * - If the column is bounded: the value is one of the {@link ColumnMetadata.uniqueValues}.
+   * - Otherwise: the value matches the column's {@link ColumnMetadata.valueType}, or it's empty and the column has
+   *   empty values.
+   * @param value The value to test.
+   */
+  matches(value: string): boolean {
+    if (this.#pattern?.test(value)) {
+      return true;
+    }
+
+    if (!this.unbounded) {
+      return this.#uniqueValues.has(value);
+    }
+
+    const { valueType } = this;
+    return (
+      this.#pattern === null &&
+      valueType !== null &&
+      (matchesValueType(value, valueType) ||
+        (value === "" && this.#valueTypes.has("empty")))
+    );
+  }
+
+  /**
+   * Scores how plausible a value is for the column according to its statistics.
+   *
+   * The score is `0` for a value consistent with the statistics and decreases with every inconsistency: being longer
+   * than {@link ColumnMetadata.maxLength} (proportionally to the excess), containing characters of classes not
+   * present in {@link ColumnMetadata.characterClasses}, and not matching the {@link ColumnMetadata.valueType} or the
+   * {@link ColumnMetadata.pattern}. A column without processed values has no statistics, so every value scores `0`
+   * unless it doesn't match the pattern.
+   *
+   * Within {@link ColumnMetadata.maxLength}, the score also decreases by the fraction of the
+   * {@link ColumnMetadata.lengths} that are shorter than the value, so that merged values of typical lengths are
+   * preferred over unusually long ones.
+   * @param value The value to score.
+   */
+  score(value: string): number {
+    let result = this.#pattern && !this.#pattern.test(value) ? -1 : 0;
+    if (!this.#count) {
+      return result;
+    }
+
+    if (value.length > this.#maxLength) {
+      result -=
+        1 + (value.length - this.#maxLength) / Math.max(this.#maxLength, 1);
+    } else if (this.#lengths.size) {
+      result -=
+        this.#sumLengthCounts((x) => x < value.length) /
+        this.#sumLengthCounts(() => true);
+    }
+
+    for (const characterClass of getCharacterClasses(value)) {
+      if (!this.#characterClasses.has(characterClass)) {
+        --result;
+      }
+    }
+
+    const { valueType } = this;
+    if (
+      valueType !== null &&
+      value !== "" &&
+      !matchesValueType(value, valueType)
+    ) {
+      --result;
+    }
+
+    return result;
+  }
+
+  /**
+   * Sets whether the column can be used as an anchor column. If `false`, it's never one, even if it's bounded.
+   * @param anchor Whether the column can be an anchor column.
+   */
+  setAnchor(anchor: boolean): ColumnMetadata {
+    this.#anchor = anchor;
+    return this;
+  }
+
+  /**
+   * Sets the thresholds of the unique values of the column, above which it's unbounded. The
+   * {@link CardinalityThreshold.maxCardinality} is replaced by the one of the next processed value or merged column.
+   * @param threshold The thresholds.
+   */
+  setCardinalityThreshold(threshold: CardinalityThreshold): ColumnMetadata {
+    this.#maxCardinality = threshold.maxCardinality;
+    this.#maxRelativeCardinality = threshold.maxRelativeCardinality;
+    return this;
+  }
+
+  /**
+   * Sets the user-supplied regular expression that the column values match.
+   * @param pattern The regular expression, or `null` to remove it.
+   */
+  setPattern(pattern: RegExp | null): ColumnMetadata {
+    this.#pattern = pattern;
+    return this;
+  }
+
+  /**
+   * Forces the column to be bounded or unbounded, regardless of its cardinality thresholds. The relative cardinality
+   * threshold is removed. A column whose unique values were discarded because it exceeded the maximum cardinality has
+   * no unique values when it's made bounded.
+   * @param unbounded Whether the column is unbounded.
+   */
+  setUnbounded(unbounded: boolean): ColumnMetadata {
+    this.#maxRelativeCardinality = null;
+    this.#unbounded = unbounded;
+    if (unbounded) {
+      this.#uniqueValues.clear();
+    }
+
+    return this;
+  }
+
   /** Invoked by {@link JSON.stringify}. */
   toJSON(): Record<string, unknown> {
     return {
+      anchor: this.#anchor ? undefined : false,
       cardinality: this.cardinality,
+      characterClasses: [...this.characterClasses],
+      count: this.count,
+      lengths: Object.fromEntries(this.lengths),
+      maxCardinality: this.maxCardinality ?? undefined,
       maxLength: this.maxLength,
+      maxRelativeCardinality: this.maxRelativeCardinality ?? undefined,
       name: this.name,
-      unbounded: this.unbounded,
-      uniqueValues: [...this.uniqueValues],
+      p50Length: this.p50Length ?? undefined,
+      p99Length: this.p99Length ?? undefined,
+      pattern: this.pattern?.source,
+      // keep the unique values of a column that's only unbounded because of its relative cardinality, so that a
+      // cached column is the same as a built one, e.g. when it's made bounded
+      unbounded: this.#unbounded,
+      uniqueValues: [...this.#uniqueValues],
+      valueTypes: [...this.valueTypes],
     };
   }
+
+  #sumLengthCounts(predicate: (length: number) => boolean): number {
+    let result = 0;
+    for (const [length, count] of this.#lengths) {
+      if (predicate(length)) {
+        result += count;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Indicates whether the first record of a file is a header.
+ * @see {@link CreateInput.header}
+ */
+export function hasHeader(
+  input: Pick<
+    FileMetadataBuilderOptions,
+    "columnNames" | "header" | "numberOfColumns"
+  >
+): boolean {
+  const { columnNames, header, numberOfColumns } = input;
+  return header ?? (numberOfColumns === undefined && columnNames === undefined);
+}
+
+/**
+ * Creates a function that indicates whether each line of a file, in order, is part of its header, which may span lines
+ * if it contains quoted values.
+ * @param header Whether the first record is a header, e.g. from {@link hasHeader}.
+ * @param options The {@link TokenizerOptions} of the file.
+ */
+export function createHeaderSkipper(
+  header: boolean,
+  options: TokenizerOptions
+): (line: string) => boolean {
+  const tokenizer = new Tokenizer(options);
+  let skip = header;
+  return (line) => {
+    if (!skip) {
+      return false;
+    }
+
+    skip = !tokenizer.tokenize(line);
+    return true;
+  };
 }
 
-function missingOrInvalidField(field: string): never {
-  throw new Error(`Missing or invalid type for field: ${field}.`);
+function getBuildParameters(input: CreateInput): BuildParameters {
+  const {
+    columnNames = null,
+    decodeEscapes = false,
+    delimiter,
+    encoding = "utf8",
+    escape = null,
+    maxCardinality,
+    maxRecordLines,
+    maxRelativeCardinality = null,
+    numberOfColumns = null,
+    quote = null,
+    sample = null,
+  } = input;
+
+  return {
+    columnNames,
+    decodeEscapes,
+    delimiter: typeof delimiter === "string" ? delimiter : delimiter.source,
+    delimiterRegex: typeof delimiter !== "string",
+    encoding,
+    escape,
+    header: hasHeader(input),
+    maxCardinality,
+    // without quotes or escapes, records never span lines, so the limit doesn't affect the metadata
+    maxRecordLines: (quote || escape) && maxRecordLines ? maxRecordLines : null,
+    maxRelativeCardinality,
+    numberOfColumns,
+    quote,
+    // the parameters are compared as JSON, so the field order must be consistent
+    sample: sample && { strategy: sample.strategy, size: sample.size },
+  };
+}
+
+async function getFileIdentity(
+  filePath: string,
+  hash: boolean
+): Promise<FileIdentity> {
+  const { mtime, size } = await stat(filePath);
+  return {
+    hash: hash ? await getFileHash(filePath) : null,
+    mtime: mtime.toISOString(),
+    size,
+  };
+}
+
+function getCharacterClasses(value: string): Set<CharacterClass> {
+  const result = new Set<CharacterClass>();
+  for (const char of value) {
+    if (/\p{Nd}/u.test(char)) {
+      result.add("digit");
+    } else if (/\p{L}/u.test(char)) {
+      result.add("letter");
+    } else if (/\s/u.test(char)) {
+      result.add("whitespace");
+    } else {
+      result.add("symbol");
+    }
+  }
+
+  return result;
+}
+
+function validateMetadataSource(value: unknown, path: string): MetadataSource {
+  const { file, parameters } = validateObject(value, path, [
+    "file",
+    "parameters",
+  ]);
+
+  const filePath = getJsonPath(path, "file");
+  const { hash, mtime, size } = validateObject(file, filePath, [
+    "hash",
+    "mtime",
+    "size",
+  ]);
+
+  const parametersPath = getJsonPath(path, "parameters");
+  const {
+    columnNames,
+    decodeEscapes,
+    delimiter,
+    delimiterRegex,
+    encoding,
+    escape,
+    header,
+    maxCardinality,
+    maxRecordLines,
+    maxRelativeCardinality,
+    numberOfColumns,
+    quote,
+    sample,
+  } = validateObject(parameters, parametersPath, [
+    "columnNames",
+    "decodeEscapes",
+    "delimiter",
+    "delimiterRegex",
+    "encoding",
+    "escape",
+    "header",
+    "maxCardinality",
+    "maxRecordLines",
+    "maxRelativeCardinality",
+    "numberOfColumns",
+    "quote",
+    "sample",
+  ]);
+  const parameter = (key: string) => getJsonPath(parametersPath, key);
+
+  return {
+    file: {
+      hash: validateNullable(
+        hash,
+        getJsonPath(filePath, "hash"),
+        validateString
+      ),
+      mtime: validateString(mtime, getJsonPath(filePath, "mtime")),
+      size: validateInteger(size, getJsonPath(filePath, "size")),
+    },
+    parameters: {
+      columnNames: validateNullable(
+        columnNames,
+        parameter("columnNames"),
+        (x, p) => validateArray(x, p, validateString)
+      ),
+      decodeEscapes: validateBoolean(decodeEscapes, parameter("decodeEscapes")),
+      delimiter: validateString(delimiter, parameter("delimiter")),
+      delimiterRegex: validateBoolean(
+        delimiterRegex,
+        parameter("delimiterRegex")
+      ),
+      encoding: validateString(encoding, parameter("encoding")) as FileEncoding,
+      escape: validateNullable(escape, parameter("escape"), validateString),
+      header: validateBoolean(header, parameter("header")),
+      maxCardinality: validateInteger(
+        maxCardinality,
+        parameter("maxCardinality")
+      ),
+      maxRecordLines: validateNullable(
+        maxRecordLines,
+        parameter("maxRecordLines"),
+        validateInteger
+      ),
+      maxRelativeCardinality: validateNullable(
+        maxRelativeCardinality,
+        parameter("maxRelativeCardinality"),
+        validatePercentage
+      ),
+      numberOfColumns: validateNullable(
+        numberOfColumns,
+        parameter("numberOfColumns"),
+        validateInteger
+      ),
+      quote: validateNullable(quote, parameter("quote"), validateString),
+      sample: validateNullable(
+        sample,
+        parameter("sample"),
+        validateMetadataSample
+      ),
+    },
+  };
+}
+
+function validateMetadataSample(value: unknown, path: string): MetadataSample {
+  const { size, strategy } = validateObject(value, path, ["size", "strategy"]);
+
+  return {
+    strategy: validateOneOf(
+      strategy,
+      getJsonPath(path, "strategy"),
+      SAMPLE_STRATEGIES
+    ),
+    size: validateInteger(size, getJsonPath(path, "size"), 1),
+  };
 }
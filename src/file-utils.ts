@@ -1,25 +1,288 @@
-import { createReadStream } from "node:fs";
+import { createHash } from "node:crypto";
+import { once } from "node:events";
+import { createReadStream, createWriteStream } from "node:fs";
+import { FileHandle, open } from "node:fs/promises";
 import { createInterface } from "node:readline";
+import { Readable } from "node:stream";
+import { finished } from "node:stream/promises";
+
+import {
+  BOM,
+  FileEncoding,
+  TextDecoderEncoding,
+  createDecoder,
+  encodeText,
+  isBufferEncoding,
+} from "./encoding.js";
 
 export interface GetFileLinesInput {
   /** The file's encoding. */
-  readonly encoding?: BufferEncoding;
+  readonly encoding?: FileEncoding;
+
+  /** The file path. */
+  readonly filePath: string;
+
+  /** The byte position to start reading at. Defaults to `0`. */
+  readonly start?: number;
+
+  /** The byte position to stop reading at, exclusive. Defaults to the end of the file. */
+  readonly end?: number;
+}
+
+export interface GetLineRangesInput {
+  /** The file's encoding. */
+  readonly encoding?: FileEncoding;
+
+  /** The file path. */
+  readonly filePath: string;
+
+  /** The maximum number of ranges. */
+  readonly count: number;
+
+  /** The byte position to start at, which must be the start of a line. Defaults to `0`. */
+  readonly start?: number;
+}
+
+/** A range of bytes of a file. */
+export interface ByteRange {
+  /** The position of the first byte. */
+  readonly start: number;
+
+  /** The position after the last byte. */
+  readonly end: number;
+}
+
+/** The bytes of a line of a file. */
+export interface LineBytes {
+  /** The bytes, without the line break. */
+  readonly bytes: Buffer;
+
+  /** The position after the line break. */
+  readonly end: number;
+}
+
+export interface CreateFileWriterInput {
+  /** Indicates whether to write a byte order mark at the start of the file. */
+  readonly bom?: boolean;
+
+  /** The file's encoding. */
+  readonly encoding?: FileEncoding;
 
   /** The file path. */
   readonly filePath: string;
+
+  /** The line ending written after each line. Defaults to `"\n"`. */
+  readonly lineEnding?: string;
 }
 
-/** Returns an async generator that yields lines of a text file. */
+/** Writes lines to a text file. */
+export interface FileWriter {
+  /** Writes a line followed by the line ending. */
+  writeLine(line: string): Promise<void>;
+
+  /** Flushes any pending data and closes the file. */
+  close(): Promise<void>;
+}
+
+/** The number of bytes read at once by {@link readLineBytes}. */
+const CHUNK_SIZE = 65536;
+
+/**
+ * Returns an async generator that yields lines of a text file, or of a range of it. A byte order mark at the start of
+ * the file is not yielded.
+ */
 export async function* getFileLines(
   input: GetFileLinesInput
 ): AsyncGenerator<string> {
-  const { encoding, filePath } = input;
-  const stream = createReadStream(filePath, { encoding });
+  const stream = createTextStream(input);
   const readLine = createInterface({ input: stream, crlfDelay: Infinity });
 
-  for await (const line of readLine) {
-    yield line;
+  // close the file even if the caller stops iterating early
+  try {
+    let first = true;
+    for await (const line of readLine) {
+      yield first && line.startsWith(BOM) ? line.slice(BOM.length) : line;
+      first = false;
+    }
+  } finally {
+    readLine.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * Detects the line ending of a text file from its first line break.
+ * @returns `"\n"`, `"\r\n"` or `"\r"`, or `undefined` if the file has no line breaks.
+ */
+export async function detectLineEnding(
+  input: GetFileLinesInput
+): Promise<string | undefined> {
+  const stream = createTextStream(input);
+
+  try {
+    let text = "";
+    for await (const chunk of stream) {
+      text += chunk;
+
+      // a carriage return at the end of the text may be followed by a line feed in the next chunk
+      const match = /\r\n|\n|\r/.exec(text);
+      if (match && (match[0] !== "\r" || match.index < text.length - 1)) {
+        return match[0];
+      }
+    }
+
+    return text.endsWith("\r") ? "\r" : undefined;
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Splits a text file into ranges of whole lines of about the same size, e.g. to process them in parallel. Only `"\n"`
+ * and `"\r\n"` line endings are supported, and a record that spans lines may be split between ranges.
+ * @returns The ranges in file order, which are fewer than {@link GetLineRangesInput.count} if the file has fewer
+ * lines. Empty if the file is empty after the {@link GetLineRangesInput.start}.
+ */
+export async function getLineRanges(
+  input: GetLineRangesInput
+): Promise<ByteRange[]> {
+  const { count, encoding = "utf8", filePath, start: first = 0 } = input;
+
+  // in UTF-16, line breaks take two bytes and can only start at even offsets
+  const newline = encodeText("\n", encoding);
+  const unit = newline.length;
+
+  const file = await open(filePath);
+  try {
+    const { size } = await file.stat();
+    const starts = [first];
+    for (let i = 1; i < count; ++i) {
+      const offset =
+        first + Math.floor((i * (size - first)) / count / unit) * unit;
+      if (offset === first) {
+        continue;
+      }
+
+      // start at the line after the one that the offset falls into, unless the offset is at its start
+      const line = await readLineBytes(file, offset - unit, newline);
+      const start = line?.end ?? size;
+      if (start > starts[starts.length - 1] && start < size) {
+        starts.push(start);
+      }
+    }
+
+    return size > first
+      ? starts.map((start, i) => ({ start, end: starts[i + 1] ?? size }))
+      : [];
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Reads the bytes of a file from a position up to the next line break.
+ * @param file The file.
+ * @param position The position to start reading at.
+ * @param newline The encoded line break.
+ * @returns The bytes of the line, or `null` at the end of the file.
+ */
+export async function readLineBytes(
+  file: FileHandle,
+  position: number,
+  newline: Buffer
+): Promise<LineBytes | null> {
+  const unit = newline.length;
+
+  let bytes = Buffer.alloc(0);
+  for (;;) {
+    const { buffer, bytesRead } = await file.read(
+      Buffer.alloc(CHUNK_SIZE),
+      0,
+      CHUNK_SIZE,
+      position + bytes.length
+    );
+
+    // a line break may start in the previous chunk
+    const searchStart = Math.max(bytes.length - unit, 0);
+    bytes = Buffer.concat([bytes, buffer.subarray(0, bytesRead)]);
+    for (let i = searchStart; i + unit <= bytes.length; i += unit) {
+      if (bytes.subarray(i, i + unit).equals(newline)) {
+        return { bytes: bytes.subarray(0, i), end: position + i + unit };
+      }
+    }
+
+    if (bytesRead < CHUNK_SIZE) {
+      return bytes.length ? { bytes, end: position + bytes.length } : null;
+    }
+  }
+}
+
+/** Computes the SHA-256 hash of a file's contents, in hexadecimal. */
+export async function getFileHash(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+
+  return hash.digest("hex");
+}
+
+/** Creates a {@link FileWriter} that truncates the file if it already exists. */
+export function createFileWriter(input: CreateFileWriterInput): FileWriter {
+  const { bom = false, encoding = "utf8", filePath, lineEnding = "\n" } = input;
+  const stream = createWriteStream(filePath);
+  if (bom) {
+    stream.write(encodeText(BOM, encoding));
+  }
+
+  // keep the first error so it's surfaced on the next operation instead of crashing the process
+  let error: Error | undefined;
+  stream.on("error", (e) => {
+    error ??= e;
+  });
+
+  return {
+    async writeLine(line) {
+      if (error) {
+        throw error;
+      }
+
+      // respect back-pressure
+      if (!stream.write(encodeText(line + lineEnding, encoding))) {
+        await once(stream, "drain");
+      }
+    },
+    async close() {
+      if (error) {
+        throw error;
+      }
+
+      stream.end();
+      await finished(stream);
+    },
+  };
+}
+
+/** Creates a stream of the decoded text of a file. */
+function createTextStream(input: GetFileLinesInput): Readable {
+  const { encoding, end, filePath, start } = input;
+
+  // the end of read streams is inclusive
+  const range = { start, end: end === undefined ? undefined : end - 1 };
+  return encoding === undefined || isBufferEncoding(encoding)
+    ? createReadStream(filePath, { ...range, encoding })
+    : Readable.from(decode(createReadStream(filePath, range), encoding));
+}
+
+async function* decode(
+  chunks: AsyncIterable<Buffer>,
+  encoding: TextDecoderEncoding
+): AsyncGenerator<string> {
+  // decode the chunks as a stream, since a character may be split between chunks
+  const decodeChunk = createDecoder(encoding);
+  for await (const chunk of chunks) {
+    yield decodeChunk(chunk);
   }
 
-  readLine.close();
+  yield decodeChunk();
 }
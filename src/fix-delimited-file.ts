@@ -0,0 +1,393 @@
+import {
+  Arguments,
+  LineEnding,
+  UnprocessedFormat,
+  getDefaultArguments,
+} from "./args.js";
+import { readColumnRules } from "./column-rule.js";
+import { SniffDelimiterOutput, sniffDelimiter } from "./delimiter-sniffer.js";
+import {
+  DetectEncodingOutput,
+  FileEncoding,
+  detectEncoding,
+  isUnicodeEncoding,
+  readBom,
+} from "./encoding.js";
+import {
+  CreateInput,
+  FileMetadata,
+  createHeaderSkipper,
+  hasHeader,
+} from "./file-metadata.js";
+import {
+  createFileWriter,
+  detectLineEnding,
+  getFileLines,
+} from "./file-utils.js";
+import {
+  LineParser,
+  LineParserOptions,
+  ParseOutput,
+  UnprocessedLine,
+} from "./line-parser.js";
+import {
+  applyMetadataOverrides,
+  readMetadataOverrides,
+} from "./metadata-override.js";
+import { AnchorChange, refineMetadata } from "./metadata-refinement.js";
+import { parseMetadataSample } from "./metadata-sample.js";
+import { RowFormatterOptions, formatRow } from "./row-formatter.js";
+import type { TokenizerOptions } from "./tokenizer.js";
+
+/**
+ * The {@link fixDelimitedFile} options: the program's {@link Arguments}, of which only the input and output file paths
+ * are required. The omitted arguments have the same defaults as in the command line.
+ */
+export type FixDelimitedFileOptions = Partial<Arguments> &
+  Pick<Arguments, "inputFilePath" | "outputFilePath">;
+
+export interface FixDelimitedFileOutput {
+  /**
+   * The number of input lines read, including the header. Unless the number of rows is limited, every line is either
+   * the header or counted once in `rowLines`, `unprocessedLines` or `ambiguousLines`.
+   */
+  readonly inputLines: number;
+
+  /** The number of rows written to the output file, excluding the header. */
+  readonly rows: number;
+
+  /** The number of input lines the written rows were made from, which is more than `rows` if rows were merged. */
+  readonly rowLines: number;
+
+  /**
+   * The number of input lines written to the unprocessed file, excluding ambiguous lines. A record that spans lines
+   * counts once per line.
+   */
+  readonly unprocessedLines: number;
+
+  /**
+   * The number of ambiguous input lines written to the review file, or the unprocessed file if there's none. A record
+   * that spans lines counts once per line.
+   */
+  readonly ambiguousLines: number;
+
+  /**
+   * How the anchor columns changed in each metadata iteration after the first, if there's more than one. Omitted
+   * otherwise.
+   */
+  readonly anchorChanges?: readonly AnchorChange[];
+
+  /** The detected input delimiter if it was `auto`. Omitted otherwise. */
+  readonly detectedDelimiter?: SniffDelimiterOutput;
+
+  /** The detected input encoding if it was `auto`. Omitted otherwise. */
+  readonly detectedEncoding?: DetectEncodingOutput;
+
+  /**
+   * The number of unprocessed lines in which no value matches each anchor column, by column name, if the metadata was
+   * built from a sample: the sample may have missed their values. Omitted if the metadata wasn't built from a sample.
+   */
+  readonly unmatchedAnchorLines?: Readonly<Record<string, number>>;
+}
+
+/** The line endings of the {@link LineEnding} arguments, except `"preserve"`. */
+const LINE_ENDINGS: Readonly<Record<Exclude<LineEnding, "preserve">, string>> =
+  {
+    crlf: "\r\n",
+    lf: "\n",
+  };
+
+/**
+ * Fixes a delimited file:
+ * 1. Detects the input encoding and delimiter if they're `auto`.
+ * 2. Creates (or reads from cache) the {@link FileMetadata} of the input file, and applies the column rules. Then
+ *    refines it with the repaired rows if there's more than one metadata iteration, and applies the metadata
+ *    overrides.
+ * 3. Parses each input line with a {@link LineParser}.
+ * 4. Writes the parsed rows to the output file, the unprocessed lines to the unprocessed file, the ambiguous lines
+ *    to the review file and the repairs to the audit file.
+ */
+export async function fixDelimitedFile(
+  options: FixDelimitedFileOptions
+): Promise<FixDelimitedFileOutput> {
+  const {
+    ambiguityMargin,
+    auditFilePath,
+    columnNames,
+    decodeEscapes,
+    delimiterRegex,
+    delimiterReplacement,
+    enforceMaxLength,
+    escapeCharacter,
+    hasHeader: header,
+    inputDelimiter,
+    inputFileEncoding,
+    inputFilePath,
+    inputMetadataFilePath,
+    keepDelimiters,
+    lineEnding,
+    maxCardinality,
+    maxMergeLines,
+    maxRecordLines,
+    maxRelativeCardinality,
+    metadataIterations,
+    metadataOverridesFilePath,
+    metadataSample,
+    metadataWorkers,
+    newlineReplacement,
+    numberOfColumns,
+    numberOfRows,
+    outputBom,
+    outputDelimiter,
+    outputFileEncoding,
+    outputFilePath,
+    quoteCharacter,
+    rebuildMetadata,
+    reviewFilePath,
+    rulesFilePath,
+    unprocessedFilePath,
+    unprocessedFormat,
+  }: Arguments = { ...getDefaultArguments(), ...options };
+
+  if (delimiterRegex && inputDelimiter === "auto") {
+    throw new Error("The auto input delimiter can't be a regular expression.");
+  }
+
+  const sample =
+    metadataSample === undefined
+      ? undefined
+      : parseMetadataSample(metadataSample);
+  if (metadataSample !== undefined && !sample) {
+    throw new Error(`Invalid metadata sample: ${metadataSample}.`);
+  }
+
+  if (outputBom && !isUnicodeEncoding(outputFileEncoding)) {
+    throw new Error(
+      `A byte order mark can't be written in the ${outputFileEncoding} output encoding.`
+    );
+  }
+
+  // detect the encoding if requested
+  const detectedEncoding =
+    inputFileEncoding === "auto"
+      ? await detectEncoding({ filePath: inputFilePath })
+      : undefined;
+  const encoding =
+    detectedEncoding?.encoding ?? (inputFileEncoding as FileEncoding);
+
+  // keep the input file's byte order mark unless requested otherwise
+  const bom =
+    outputBom ??
+    (isUnicodeEncoding(outputFileEncoding) &&
+      (await readBom(inputFilePath)) !== undefined);
+
+  // use the input file's line ending if requested, unless it has no line breaks
+  const outputLineEnding =
+    lineEnding === "preserve"
+      ? (await detectLineEnding({ encoding, filePath: inputFilePath })) ??
+        LINE_ENDINGS.lf
+      : LINE_ENDINGS[lineEnding];
+
+  // detect the delimiter if requested
+  const detectedDelimiter =
+    inputDelimiter === "auto"
+      ? await sniffDelimiter({
+          decodeEscapes,
+          encoding,
+          escape: escapeCharacter,
+          filePath: inputFilePath,
+          maxRecordLines,
+          quote: quoteCharacter,
+        })
+      : undefined;
+  const delimiter =
+    detectedDelimiter?.delimiter ??
+    (delimiterRegex ? new RegExp(inputDelimiter) : inputDelimiter);
+
+  const tokenizerOptions: TokenizerOptions = {
+    decodeEscapes,
+    delimiter,
+    escape: escapeCharacter,
+    maxRecordLines,
+    quote: quoteCharacter,
+  };
+
+  const createInput: CreateInput = {
+    ...tokenizerOptions,
+    columnNames: columnNames?.split(","),
+    encoding,
+    filePath: inputFilePath,
+    header,
+    maxCardinality,
+    maxRelativeCardinality,
+    metadataFilePath: inputMetadataFilePath,
+    numberOfColumns,
+    rebuild: rebuildMetadata,
+    rules: rulesFilePath ? await readColumnRules(rulesFilePath) : undefined,
+    sample,
+    workers: metadataWorkers,
+  };
+  const parserOptions: LineParserOptions = {
+    ...tokenizerOptions,
+    ambiguityMargin,
+    enforceMaxLength,
+    keepDelimiters,
+    maxMergeLines,
+    newlineReplacement,
+  };
+
+  // refine the metadata with the repaired rows if requested, and override it, which is never cached
+  const createdMetadata = await FileMetadata.create(createInput);
+  const overrides = metadataOverridesFilePath
+    ? await readMetadataOverrides(metadataOverridesFilePath)
+    : undefined;
+  const { anchorChanges, metadata } =
+    metadataIterations > 1
+      ? await refineMetadata(createdMetadata, {
+          ...createInput,
+          ...parserOptions,
+          iterations: metadataIterations,
+          mergeSeparator: delimiterReplacement,
+          overrides,
+        })
+      : {
+          anchorChanges: undefined,
+          metadata: overrides
+            ? applyMetadataOverrides(createdMetadata, overrides)
+            : createdMetadata,
+        };
+  const parser = new LineParser(delimiter, metadata, delimiterReplacement, {
+    ...parserOptions,
+    audit: auditFilePath !== undefined,
+  });
+
+  // values with delimiters or line breaks, e.g. quoted input values, must not break the output rows
+  const rowFormatterOptions: RowFormatterOptions = {
+    delimiter: outputDelimiter,
+    delimiterReplacement,
+    newlineReplacement,
+    quote: quoteCharacter,
+  };
+
+  const output = createFileWriter({
+    bom,
+    encoding: outputFileEncoding,
+    filePath: outputFilePath,
+    lineEnding: outputLineEnding,
+  });
+  const unprocessed = createFileWriter({
+    bom,
+    encoding: outputFileEncoding,
+    filePath: unprocessedFilePath,
+    lineEnding: outputLineEnding,
+  });
+  const review = reviewFilePath
+    ? createFileWriter({
+        bom,
+        encoding: outputFileEncoding,
+        filePath: reviewFilePath,
+        lineEnding: outputLineEnding,
+      })
+    : unprocessed;
+  const audit = auditFilePath
+    ? createFileWriter({ filePath: auditFilePath })
+    : undefined;
+
+  let inputLines = 0;
+  let rows = 0;
+  let rowLines = 0;
+  let unprocessedLines = 0;
+  let ambiguousLines = 0;
+  const unmatchedAnchorLines: Record<string, number> = {};
+  try {
+    // write the header once, either from the input file or from the column names
+    const skipHeader = hasHeader(createInput);
+    if (skipHeader || columnNames) {
+      await output.writeLine(
+        formatRow(
+          metadata.columns.map((x) => x.name),
+          rowFormatterOptions
+        )
+      );
+    }
+
+    const write = async (parsed: ParseOutput): Promise<void> => {
+      for (const line of parsed.unprocessedLines) {
+        await unprocessed.writeLine(formatLine(line, unprocessedFormat));
+        unprocessedLines += countLines(line);
+
+        // lines skipped while merging or evicted keep the anchor column they missed on their own
+        const { column } = line;
+        if (column !== undefined) {
+          unmatchedAnchorLines[column] =
+            (unmatchedAnchorLines[column] ?? 0) + 1;
+        }
+      }
+
+      for (const line of parsed.ambiguousLines ?? []) {
+        await review.writeLine(formatLine(line, unprocessedFormat));
+        ambiguousLines += countLines(line);
+      }
+
+      if (parsed.columns) {
+        await output.writeLine(formatRow(parsed.columns, rowFormatterOptions));
+        ++rows;
+        rowLines += parsed.lineNumbers?.length ?? 1;
+      }
+
+      if (audit && parsed.repair) {
+        await audit.writeLine(JSON.stringify(parsed.repair));
+      }
+    };
+
+    const isHeader = createHeaderSkipper(skipHeader, tokenizerOptions);
+    let limitReached = false;
+    for await (const line of getFileLines({
+      encoding,
+      filePath: inputFilePath,
+    })) {
+      // stop once the maximum number of rows has been written
+      if (numberOfRows !== undefined && rows >= numberOfRows) {
+        limitReached = true;
+        break;
+      }
+
+      ++inputLines;
+      if (isHeader(line)) {
+        continue;
+      }
+
+      await write(parser.parse(line, inputLines));
+    }
+
+    // the lines kept by the parser at the end of the input would be lost otherwise
+    if (!limitReached) {
+      await write(parser.flush());
+    }
+  } finally {
+    await Promise.all(
+      [...new Set([output, unprocessed, review, audit])].map((x) => x?.close())
+    );
+  }
+
+  return {
+    inputLines,
+    rows,
+    rowLines,
+    unprocessedLines,
+    ambiguousLines,
+    ...(anchorChanges && { anchorChanges }),
+    ...(detectedDelimiter && { detectedDelimiter }),
+    ...(detectedEncoding && { detectedEncoding }),
+    ...(sample && { unmatchedAnchorLines }),
+  };
+}
+
+/** Counts the input lines of an unprocessed line, whose text joins the lines of a record with new lines. */
+function countLines({ text }: UnprocessedLine): number {
+  return text.split("\n").length;
+}
+
+function formatLine(line: UnprocessedLine, format: UnprocessedFormat): string {
+  return format === "jsonl" ? JSON.stringify(line) : line.text;
+}
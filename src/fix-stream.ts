@@ -0,0 +1,204 @@
+import { Transform, TransformCallback } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+
+import { FileMetadata, createHeaderSkipper } from "./file-metadata.js";
+import {
+  LineParser,
+  LineParserOptions,
+  ParseOutput,
+  Repair,
+  UnprocessedLine,
+} from "./line-parser.js";
+import { RowFormatterOptions, formatRow } from "./row-formatter.js";
+import type { TokenizerOptions } from "./tokenizer.js";
+
+export interface FixStreamOptions extends LineParserOptions {
+  /** The column delimiter. */
+  readonly delimiter: TokenizerOptions["delimiter"];
+
+  /** Indicates whether the first record is a header, which is not processed as a row. */
+  readonly header?: boolean;
+
+  /**
+   * Indicates whether each written chunk is a line. Otherwise, the chunks are joined and split into lines at their
+   * line breaks.
+   */
+  readonly lines?: boolean;
+
+  /** The value in-between merged columns. Defaults to `" "`. */
+  readonly mergeSeparator?: string;
+
+  /** The column delimiter of the `"text"` rows. Defaults to `"\t"`. */
+  readonly outputDelimiter?: string;
+
+  /** The format of the rows. Defaults to `"array"`. */
+  readonly rowFormat?: RowFormat;
+}
+
+/**
+ * The format of the rows of a {@link FixStream}: `"array"` for the column values, `"object"` for the column values
+ * keyed by column name, or `"text"` for a line of delimited text without line ending. Text values that contain the
+ * delimiter or line breaks are quoted with the quote character, or have them replaced if there's none.
+ * @see {@link formatRow}
+ */
+export type RowFormat = "array" | "object" | "text";
+
+/** A row of a {@link FixStream}. */
+export type FixStreamRow =
+  | readonly string[]
+  | Readonly<Record<string, string>>
+  | string;
+
+/** The line breaks that chunks are split at. */
+const LINE_BREAK = /\r?\n/;
+
+/**
+ * A {@link Transform} stream that fixes the lines of a delimited file with a {@link LineParser}. Strings or buffers
+ * (decoded as UTF-8) are written to it, and the parsed rows are read from it as {@link FixStreamRow}s.
+ *
+ * The lines that aren't rows are emitted as events instead:
+ * - `unprocessed`: an {@link UnprocessedLine} that wasn't processed.
+ * - `ambiguous`: an {@link UnprocessedLine} of a record that can be parsed in more than one plausible way.
+ * - `repair`: a {@link Repair} of a row, if {@link LineParserOptions.audit} is specified.
+ *
+ * The lines kept in-memory by the parser are emitted when the stream ends.
+ */
+export class FixStream extends Transform {
+  readonly #columnNames: readonly string[];
+  readonly #decoder = new StringDecoder("utf8");
+  readonly #isHeader: (line: string) => boolean;
+  readonly #lines: boolean;
+  readonly #parser: LineParser;
+  readonly #rowFormat: RowFormat;
+  readonly #rowFormatterOptions: RowFormatterOptions;
+
+  #buffer = "";
+  #lineNumber = 0;
+
+  /**
+   * Creates a new instance of the {@link FixStream} class.
+   * @param metadata The {@link FileMetadata} to use for parsing the lines.
+   * @param options The {@link FixStreamOptions}.
+   */
+  constructor(metadata: FileMetadata, options: FixStreamOptions) {
+    super({ readableObjectMode: true, writableObjectMode: true });
+
+    const {
+      decodeEscapes,
+      delimiter,
+      escape,
+      header,
+      lines,
+      maxRecordLines,
+      mergeSeparator,
+      outputDelimiter,
+      quote,
+      rowFormat,
+      ...parserOptions
+    } = options;
+    const tokenizerOptions = { decodeEscapes, escape, maxRecordLines, quote };
+
+    this.#columnNames = metadata.columns.map((x) => x.name);
+    this.#isHeader = createHeaderSkipper(header ?? false, {
+      ...tokenizerOptions,
+      delimiter,
+    });
+    this.#lines = lines ?? false;
+    this.#parser = new LineParser(delimiter, metadata, mergeSeparator, {
+      ...parserOptions,
+      ...tokenizerOptions,
+    });
+    this.#rowFormat = rowFormat ?? "array";
+    this.#rowFormatterOptions = {
+      delimiter: outputDelimiter ?? "\t",
+      delimiterReplacement: mergeSeparator,
+      newlineReplacement: parserOptions.newlineReplacement,
+      quote,
+    };
+  }
+
+  override _transform(
+    chunk: Buffer | string,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    try {
+      const text =
+        typeof chunk === "string" ? chunk : this.#decoder.write(chunk);
+      if (this.#lines) {
+        this.#parseLine(text);
+      } else {
+        // the last line may continue in the next chunk
+        const lines = (this.#buffer + text).split(LINE_BREAK);
+        this.#buffer = lines.pop() ?? "";
+        lines.forEach((x) => this.#parseLine(x));
+      }
+
+      callback();
+    } catch (e) {
+      callback(e as Error);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    try {
+      const text = this.#buffer + this.#decoder.end();
+      this.#buffer = "";
+      if (text) {
+        this.#parseLine(text);
+      }
+
+      this.#write(this.#parser.flush());
+      callback();
+    } catch (e) {
+      callback(e as Error);
+    }
+  }
+
+  #formatRow(columns: readonly string[]): FixStreamRow {
+    if (this.#rowFormat === "object") {
+      return Object.fromEntries(
+        this.#columnNames.map((x, i) => [x, columns[i]])
+      );
+    }
+
+    return this.#rowFormat === "text"
+      ? formatRow(columns, this.#rowFormatterOptions)
+      : columns;
+  }
+
+  #parseLine(line: string): void {
+    ++this.#lineNumber;
+
+    if (this.#isHeader(line)) {
+      return;
+    }
+
+    this.#write(this.#parser.parse(line, this.#lineNumber));
+  }
+
+  #write(parsed: ParseOutput): void {
+    parsed.unprocessedLines.forEach((x) => this.emit("unprocessed", x));
+    parsed.ambiguousLines?.forEach((x) => this.emit("ambiguous", x));
+
+    if (parsed.columns) {
+      this.push(this.#formatRow(parsed.columns));
+    }
+
+    if (parsed.repair) {
+      this.emit("repair", parsed.repair);
+    }
+  }
+}
+
+/**
+ * Creates a {@link FixStream}.
+ * @param metadata The {@link FileMetadata} to use for parsing the lines.
+ * @param options The {@link FixStreamOptions}.
+ */
+export function createFixStream(
+  metadata: FileMetadata,
+  options: FixStreamOptions
+): FixStream {
+  return new FixStream(metadata, options);
+}
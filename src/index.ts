@@ -1,5 +1,80 @@
 import "dotenv/config";
 
-import { env } from "node:process";
+import { argv, exit } from "node:process";
 
-console.log("Message:", env.MESSAGE);
+import { Arguments, getHelp, parse } from "./args.js";
+import {
+  FixDelimitedFileOutput,
+  fixDelimitedFile,
+} from "./fix-delimited-file.js";
+
+let args: Arguments;
+try {
+  args = parse(argv);
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  console.error();
+  console.error(getHelp());
+  exit(1);
+}
+
+let output: FixDelimitedFileOutput;
+try {
+  output = await fixDelimitedFile(args);
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  exit(1);
+}
+
+const {
+  ambiguousLines,
+  anchorChanges,
+  detectedDelimiter,
+  detectedEncoding,
+  inputLines,
+  rowLines,
+  rows,
+  unmatchedAnchorLines,
+  unprocessedLines,
+} = output;
+if (detectedEncoding) {
+  const { bom, encoding } = detectedEncoding;
+  console.log(
+    `Detected input encoding: ${JSON.stringify(encoding)}${
+      bom ? " (byte order mark)" : ""
+    }.`
+  );
+}
+
+if (detectedDelimiter) {
+  const { confidence, delimiter } = detectedDelimiter;
+  console.log(
+    `Detected input delimiter: ${JSON.stringify(
+      delimiter
+    )} (confidence: ${confidence.toFixed(2)}).`
+  );
+}
+
+for (const { added, anchors, iteration, removed } of anchorChanges ?? []) {
+  console.log(
+    `Metadata iteration ${iteration}. Anchor columns: ${formatNames(
+      anchors
+    )}. Added: ${formatNames(added)}. Removed: ${formatNames(removed)}.`
+  );
+}
+
+console.log(
+  `Input lines: ${inputLines}. Rows written: ${rows} (from ${rowLines} lines). Unprocessed lines: ${unprocessedLines}. Ambiguous lines: ${ambiguousLines}.`
+);
+
+for (const [column, count] of Object.entries(unmatchedAnchorLines ?? {})) {
+  console.warn(
+    `Warning: ${count} unprocessed lines have no value that matches the anchor column ${JSON.stringify(
+      column
+    )}. The metadata sample may have missed their values: consider a larger sample.`
+  );
+}
+
+function formatNames(names: readonly string[]): string {
+  return names.length ? names.map((x) => JSON.stringify(x)).join(", ") : "none";
+}
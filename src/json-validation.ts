@@ -0,0 +1,206 @@
+/**
+ * Gets the path of a JSON value's child, e.g. `columns[3].uniqueValues`.
+ * @param path The path of the parent value, or an empty string for the root value.
+ * @param key The child's field name or array index.
+ */
+export function getJsonPath(path: string, key: number | string): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Throws an error about a missing or invalid JSON value.
+ * @param path The path of the value.
+ * @param expected The description of the expected value, e.g. `a string`.
+ * @param value The actual value.
+ */
+export function invalidField(
+  path: string,
+  expected: string,
+  value: unknown
+): never {
+  throw new Error(
+    `Missing or invalid type for field: ${
+      path || "(root)"
+    }. Expected ${expected}, but got ${describeValue(value)}.`
+  );
+}
+
+/**
+ * Validates that a JSON value is an object without unknown fields.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ * @param fields The known fields.
+ */
+export function validateObject(
+  value: unknown,
+  path: string,
+  fields: readonly string[]
+): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    invalidField(path, "an object", value);
+  }
+
+  const obj = value as Record<string, unknown>;
+  for (const key of Object.keys(obj)) {
+    if (!fields.includes(key)) {
+      throw new Error(
+        `Unknown field: ${getJsonPath(
+          path,
+          key
+        )}. Expected one of: ${fields.join(", ")}.`
+      );
+    }
+  }
+
+  return obj;
+}
+
+/**
+ * Validates that a JSON value is an array, and validates each of its items.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ * @param validateItem Validates an item given its path.
+ */
+export function validateArray<T>(
+  value: unknown,
+  path: string,
+  validateItem: (item: unknown, path: string) => T
+): T[] {
+  if (!Array.isArray(value)) {
+    invalidField(path, "an array", value);
+  }
+
+  return value.map((x, i) => validateItem(x, getJsonPath(path, i)));
+}
+
+/** Validates that a JSON value is a boolean. */
+export function validateBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    invalidField(path, "a boolean", value);
+  }
+
+  return value;
+}
+
+/**
+ * Validates that a JSON value is an integer.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ * @param min The minimum valid value.
+ */
+export function validateInteger(value: unknown, path: string, min = 0): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    invalidField(
+      path,
+      min === 0 ? "a non-negative integer" : `an integer of at least ${min}`,
+      value
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Validates that a JSON value is a percentage greater than `0` and at most `100`.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ */
+export function validatePercentage(value: unknown, path: string): number {
+  if (typeof value !== "number" || !(value > 0 && value <= 100)) {
+    invalidField(path, "a number greater than 0 and at most 100", value);
+  }
+
+  return value;
+}
+
+/**
+ * Validates that a JSON value is either `null` or valid according to a validation function.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ * @param validate Validates the value if it's not `null`.
+ */
+export function validateNullable<T>(
+  value: unknown,
+  path: string,
+  validate: (value: unknown, path: string) => T
+): T | null {
+  return value === null ? null : validate(value, path);
+}
+
+/**
+ * Validates that a JSON value is one of a set of values.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ * @param values The valid values.
+ */
+export function validateOneOf<T>(
+  value: unknown,
+  path: string,
+  values: ReadonlySet<T>
+): T {
+  if (!values.has(value as T)) {
+    invalidField(
+      path,
+      `one of ${[...values].map((x) => JSON.stringify(x)).join(", ")}`,
+      value
+    );
+  }
+
+  return value as T;
+}
+
+/**
+ * Validates that a JSON value is an object, and validates each of its field values.
+ * @param value The value to validate.
+ * @param path The path of the value.
+ * @param validateItem Validates a field value given its path.
+ */
+export function validateRecord<T>(
+  value: unknown,
+  path: string,
+  validateItem: (item: unknown, path: string) => T
+): Record<string, T> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    invalidField(path, "an object", value);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, x]) => [
+      key,
+      validateItem(x, getJsonPath(path, key)),
+    ])
+  );
+}
+
+/** Validates that a JSON value is a string. */
+export function validateString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    invalidField(path, "a string", value);
+  }
+
+  return value;
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return "nothing";
+  }
+
+  if (value === null) {
+    return "null";
+  }
+
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+
+  if (typeof value === "object") {
+    return "an object";
+  }
+
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -0,0 +1,56 @@
+/**
+ * The library entry point, for embedding the fixing of delimited files in other programs. The command line entry
+ * point is `index.ts`.
+ */
+
+export type { Arguments, LineEnding, UnprocessedFormat } from "./args.js";
+export type { ColumnRule } from "./column-rule.js";
+export type { FileEncoding } from "./encoding.js";
+export {
+  FileMetadataBuilder,
+  type FileMetadataBuilderOptions,
+} from "./file-metadata-builder.js";
+export {
+  type BuildParameters,
+  type CardinalityThreshold,
+  type CharacterClass,
+  ColumnMetadata,
+  type CreateInput,
+  FileMetadata,
+  type MetadataSource,
+} from "./file-metadata.js";
+export {
+  type FixDelimitedFileOptions,
+  type FixDelimitedFileOutput,
+  fixDelimitedFile,
+} from "./fix-delimited-file.js";
+export {
+  FixStream,
+  type FixStreamOptions,
+  type FixStreamRow,
+  type RowFormat,
+  createFixStream,
+} from "./fix-stream.js";
+export {
+  type AnchorMatch,
+  type ColumnMerge,
+  LineParser,
+  type LineParserOptions,
+  type ParseOutput,
+  type RejectionReason,
+  type Repair,
+  type UnprocessedLine,
+} from "./line-parser.js";
+export {
+  type MetadataOverride,
+  applyMetadataOverrides,
+} from "./metadata-override.js";
+export {
+  type AnchorChange,
+  type RefineMetadataInput,
+  type RefineMetadataOutput,
+  refineMetadata,
+} from "./metadata-refinement.js";
+export type { MetadataSample, SampleStrategy } from "./metadata-sample.js";
+export { type RowFormatterOptions, formatRow } from "./row-formatter.js";
+export type { ValueType } from "./value-type.js";
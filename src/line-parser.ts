@@ -1,4 +1,115 @@
-import type { FileMetadata } from "./file-metadata.js";
+import type { ColumnMetadata, FileMetadata } from "./file-metadata.js";
+import { TokenizedRecord, Tokenizer, TokenizerOptions } from "./tokenizer.js";
+
+export interface LineParserOptions extends Omit<TokenizerOptions, "delimiter"> {
+  /**
+   * The maximum score difference between the two best candidate parses of a record for it to be considered
+   * ambiguous. If omitted, the best candidate is always used.
+   * @see {@link ColumnMetadata.score}
+   */
+  readonly ambiguityMargin?: number;
+
+  /** Whether to describe how the parsed columns were repaired in {@link ParseOutput.repair}. */
+  readonly audit?: boolean;
+
+  /**
+   * Whether merging columns into a value longer than the column's {@link ColumnMetadata.maxLength} is rejected
+   * instead of penalized. Columns without processed values have no maximum length.
+   */
+  readonly enforceMaxLength?: boolean;
+
+  /**
+   * Whether merged columns keep the delimiter text in-between them instead of the merge separator. Columns merged
+   * across lines are always joined with the {@link newlineReplacement}.
+   */
+  readonly keepDelimiters?: boolean;
+
+  /**
+   * The maximum number of lines kept in-memory to be merged with the next lines. When it's exceeded, the oldest line
+   * is returned as unprocessed. If a quoted value or an escaped line break spans lines, the record counts as a single
+   * line, and {@link maxRecordLines} limits how many lines it's kept for. If omitted, there's no limit.
+   */
+  readonly maxMergeLines?: number;
+
+  /** The value in-between columns merged across lines. If omitted, the merge separator is used. */
+  readonly newlineReplacement?: string;
+}
+
+/**
+ * Why a line wasn't processed:
+ * - `too-few-columns`: it has fewer columns than the {@link FileMetadata}, or than the columns after an anchor column.
+ * - `no-anchor-match`: no value matches an anchor column.
+ * - `leftover-columns`: it has columns after the last anchor column, but that's the last column.
+ * - `max-length-exceeded`: its columns can only be merged into values longer than the columns' maximum lengths.
+ * - `skipped-while-merging`: it was skipped in favor of merging the lines after it.
+ * - `merge-window-exceeded`: it was evicted to keep at most {@link LineParserOptions.maxMergeLines} lines in-memory.
+ * - `record-lines-exceeded`: a quoted value or an escaped line break spans more than
+ *   {@link LineParserOptions.maxRecordLines} lines, e.g. because a quote is never closed.
+ * - `ambiguous`: it can be parsed in more than one plausible way.
+ */
+export type RejectionReason =
+  | "ambiguous"
+  | "leftover-columns"
+  | "max-length-exceeded"
+  | "merge-window-exceeded"
+  | "no-anchor-match"
+  | "record-lines-exceeded"
+  | "skipped-while-merging"
+  | "too-few-columns";
+
+/** A line that wasn't processed. */
+export interface UnprocessedLine {
+  /** The 1-based line number, or the number of the first line if the record spans lines. */
+  readonly lineNumber: number;
+
+  /** The number of columns of the line. */
+  readonly columns: number;
+
+  /** Why the line wasn't processed. */
+  readonly reason: RejectionReason;
+
+  /**
+   * The name of the anchor column that no value matches if the line couldn't be parsed on its own because of it, even
+   * if the line was then `skipped-while-merging` or `merge-window-exceeded`. Omitted otherwise.
+   */
+  readonly column?: string;
+
+  /** The line's text. If the record spans lines, the lines are joined with new lines. */
+  readonly text: string;
+}
+
+/** A column made of more than one token. */
+export interface ColumnMerge {
+  /** The column name. */
+  readonly column: string;
+
+  /** The indices of the merged {@link Repair.tokens}. */
+  readonly tokens: readonly number[];
+}
+
+/** The token that an anchor column matched. */
+export interface AnchorMatch {
+  /** The anchor column name. */
+  readonly column: string;
+
+  /** The index of the matched {@link Repair.tokens} item. */
+  readonly token: number;
+}
+
+/** Describes how the columns of a record that spans lines, or that has merged columns, were repaired. */
+export interface Repair {
+  /** The 1-based numbers of the lines of the record. */
+  readonly lineNumbers: readonly number[];
+
+  /** The tokens of the record's lines, in order. */
+  readonly tokens: readonly string[];
+
+  /** The columns made of more than one token. */
+  readonly merges: readonly ColumnMerge[];
+
+  /** The tokens matched by the anchor columns, which decided the merges in-between them. */
+  readonly anchors: readonly AnchorMatch[];
+}
 
 export interface ParseOutput {
   /**
@@ -8,146 +119,640 @@ export interface ParseOutput {
   readonly columns: readonly string[] | null;
 
   /**
-   * Contains any unprocessed lines after a successful parsing.
+   * The 1-based numbers of the lines the parsed columns were made from, if there's more than one, e.g. if they were
+   * merged across lines. Omitted if the parsed columns were made from the specified line only, or if there are none.
    */
-  readonly unprocessedLines: readonly string[];
+  readonly lineNumbers?: readonly number[];
+
+  /**
+   * Contains any unprocessed lines after a successful parsing, or the lines evicted from the lines kept in-memory.
+   */
+  readonly unprocessedLines: readonly UnprocessedLine[];
+
+  /**
+   * Contains the lines of a record that could be parsed in more than one plausible way, in which case `columns` is
+   * `null`. Omitted if there's no such record.
+   */
+  readonly ambiguousLines?: readonly UnprocessedLine[];
+
+  /**
+   * Describes how the parsed columns were repaired if {@link LineParserOptions.audit} is specified. Omitted if the
+   * columns are the tokens of a single record.
+   */
+  readonly repair?: Repair;
+}
+
+/** A column value and the range of tokens it's made of. */
+interface ColumnValue {
+  /** The value. */
+  readonly value: string;
+
+  /** The index of the first token. */
+  readonly start: number;
+
+  /** The index after the last token. */
+  readonly end: number;
+}
+
+interface Candidate {
+  /** The candidate's columns. */
+  readonly columns: readonly string[];
+
+  /** The candidate's column values and their tokens. */
+  readonly values: readonly ColumnValue[];
+
+  /** The sum of the scores of each column value. */
+  readonly score: number;
 }
 
+/** Why a line wasn't processed, and the related anchor column if any. */
+type Rejection = Pick<UnprocessedLine, "column" | "reason">;
+
+/** A record and the numbers of its lines. */
+interface NumberedRecord {
+  /** The 1-based numbers of the record's lines. */
+  readonly lineNumbers: readonly number[];
+
+  /** The record. */
+  readonly record: TokenizedRecord;
+
+  /** The values in-between the record's tokens when they're merged, computed once per record. */
+  readonly separators: readonly string[];
+}
+
+/** A record that couldn't be parsed on its own, kept to be merged with the next records. */
+interface PendingRecord extends NumberedRecord {
+  /** Why the record couldn't be parsed on its own. */
+  readonly rejection: Rejection;
+}
+
+interface ParsedColumns {
+  /** The columns of the best candidate. */
+  readonly columns: readonly string[];
+
+  /** The column values of the best candidate and their tokens. */
+  readonly values: readonly ColumnValue[];
+
+  /** Whether the two best candidates are too close to call. */
+  readonly ambiguous: boolean;
+}
+
+/** The maximum number of candidate parses to enumerate per record. */
+const MAX_CANDIDATES = 1000;
+
 export class LineParser {
-  readonly #delimiter: string;
+  readonly #ambiguityMargin?: number;
+  readonly #audit: boolean;
+  readonly #enforceMaxLength: boolean;
+  readonly #keepDelimiters: boolean;
+  readonly #maxMergeLines: number;
   readonly #mergeSeparator: string;
   readonly #metadata: FileMetadata;
+  readonly #newlineReplacement: string;
+  readonly #tokenizer: Tokenizer;
 
-  #lines: string[] = [];
+  #lineNumber = 0;
+  #lines: PendingRecord[] = [];
+  #recordLineNumbers: number[] = [];
 
   /**
    * Creates a new instance of the {@link LineParser} class.
-   * @param delimiter The column delimiter character.
+   * @param delimiter The column delimiter.
    * @param metadata The {@link FileMetadata} to use for parsing text lines.
    * @param mergeSeparator The character to use in-between merged columns.
+   * @param options The {@link LineParserOptions}.
    */
-  constructor(delimiter: string, metadata: FileMetadata, mergeSeparator = " ") {
-    this.#delimiter = delimiter;
+  constructor(
+    delimiter: TokenizerOptions["delimiter"],
+    metadata: FileMetadata,
+    mergeSeparator = " ",
+    options: LineParserOptions = {}
+  ) {
+    const {
+      ambiguityMargin,
+      audit,
+      enforceMaxLength,
+      keepDelimiters,
+      maxMergeLines,
+      newlineReplacement,
+      ...tokenizerOptions
+    } = options;
+
+    if (ambiguityMargin !== undefined && !(ambiguityMargin >= 0)) {
+      throw new Error("The ambiguity margin must be a non-negative number.");
+    }
+
+    if (
+      maxMergeLines !== undefined &&
+      !(Number.isInteger(maxMergeLines) && maxMergeLines > 0)
+    ) {
+      throw new Error(
+        "The maximum number of merge lines must be a positive integer."
+      );
+    }
+
+    this.#ambiguityMargin = ambiguityMargin;
+    this.#audit = audit ?? false;
+    this.#enforceMaxLength = enforceMaxLength ?? false;
+    this.#keepDelimiters = keepDelimiters ?? false;
+    this.#maxMergeLines = maxMergeLines ?? Infinity;
     this.#mergeSeparator = mergeSeparator;
     this.#metadata = metadata;
+    this.#newlineReplacement = newlineReplacement ?? mergeSeparator;
+    this.#tokenizer = new Tokenizer({ ...tokenizerOptions, delimiter });
   }
 
   /**
    * Tries to parse a line according to the {@link FileMetadata} specified in the constructor. If parsing fails, the
    * previously attempted lines are kept in-memory and merged in an attempt to succeed parsing. When parsing succeeds
-   * any previously kept lines that were not used are returned as unprocessed.
+   * any previously kept lines that were not used are returned as unprocessed. Call {@link LineParser.flush} at the
+   * end of the input to get the lines that are still kept.
+   *
+   * When a record can be parsed in more than one way, every candidate is scored with the column statistics and the
+   * best one is used. If {@link LineParserOptions.ambiguityMargin} is specified and the two best candidates are too
+   * close to call, the record's lines are returned as ambiguous instead. If
+   * {@link LineParserOptions.enforceMaxLength} is specified, merges that exceed a column's maximum length are not
+   * considered.
+   *
+   * Quoted values and escaped delimiters are never split: only unquoted delimiters are considered for merging. If a
+   * quoted value or an escaped line break spans lines, no output is returned until the record is complete, or until
+   * it spans {@link LineParserOptions.maxRecordLines} lines, in which case its lines are returned as
+   * `record-lines-exceeded`.
+   *
+   * Unprocessed lines are returned with their line number and the reason why they weren't processed: lines that were
+   * skipped to merge the lines after them are `skipped-while-merging`, lines evicted because more than
+   * {@link LineParserOptions.maxMergeLines} lines were kept are `merge-window-exceeded`, and the rest have the reason
+   * why they couldn't be parsed on their own.
+   *
+   * If {@link LineParserOptions.audit} is specified, the output describes how the columns were repaired.
    * @param line The line to attempt to parse.
+   * @param lineNumber The 1-based line number. Defaults to the number that follows the previous line's.
    */
-  parse(line: string): ParseOutput {
+  parse(line: string, lineNumber = this.#lineNumber + 1): ParseOutput {
+    this.#lineNumber = lineNumber;
+    this.#recordLineNumbers.push(lineNumber);
+
+    // if the record spans lines, wait for the rest of it
+    const tokenized = this.#tokenizer.tokenize(line);
+    if (!tokenized) {
+      return {
+        columns: null,
+        unprocessedLines: [],
+      };
+    }
+
+    // don't try to parse a record that was cut short, e.g. because of a quote that is never closed
+    if (tokenized.truncated) {
+      const lineNumbers = this.#recordLineNumbers;
+      this.#recordLineNumbers = [];
+      return {
+        columns: null,
+        unprocessedLines: [
+          toUnprocessedLine(
+            { lineNumbers, record: tokenized, separators: [] },
+            { reason: "record-lines-exceeded" }
+          ),
+        ],
+      };
+    }
+
+    return this.#parseRecord(tokenized);
+  }
+
+  /**
+   * Ends the input: completes the pending record if a quoted value or an escaped line break spans the last lines, makes
+   * a final attempt to parse it, and returns the lines that are still kept in-memory as unprocessed. The parser can be
+   * reused for another input afterwards.
+   */
+  flush(): ParseOutput {
+    const tokenized = this.#tokenizer.flush();
+    const parsed: ParseOutput = tokenized
+      ? this.#parseRecord(tokenized)
+      : { columns: null, unprocessedLines: [] };
+
+    const unprocessedLines = this.#lines.map((x) =>
+      toUnprocessedLine(x, x.rejection)
+    );
+    this.#lines = [];
+
+    return {
+      ...parsed,
+      unprocessedLines: [...parsed.unprocessedLines, ...unprocessedLines],
+    };
+  }
+
+  #parseRecord(tokenized: TokenizedRecord): ParseOutput {
+    const record: NumberedRecord = {
+      lineNumbers: this.#recordLineNumbers,
+      record: tokenized,
+      separators: this.#keepDelimiters
+        ? tokenized.delimiters
+        : tokenized.delimiters.map(() => this.#mergeSeparator),
+    };
+    this.#recordLineNumbers = [];
+
     // try to parse `line`
-    const cols = line.split(this.#delimiter);
-    const columns = this.#tryParseColumns(cols);
+    const parsed = this.#tryParseColumns([record]);
 
     // if parsing succeeds, discard any previous lines
-    if (columns != null) {
-      const unprocessedLines = this.#lines;
+    if (parsed) {
+      const unprocessedLines = this.#lines.map((x) =>
+        toUnprocessedLine(x, x.rejection)
+      );
       this.#lines = [];
-      return {
-        columns,
-        unprocessedLines,
-      };
+      return this.#createOutput(parsed, [record], unprocessedLines);
     }
 
-    // add `line` to cache
-    this.#lines.push(line);
+    // add `line` to cache, with the reason why it can't be parsed on its own
+    this.#lines.push({ ...record, rejection: this.#explain(tokenized.tokens) });
+
+    // evict the oldest lines if the cache is full, so that a record that never parses doesn't stall the parsing
+    const evictedLines = this.#lines
+      .splice(0, Math.max(this.#lines.length - this.#maxMergeLines, 0))
+      .map((x) =>
+        toUnprocessedLine(x, {
+          ...x.rejection,
+          reason: "merge-window-exceeded",
+        })
+      );
 
     // if there's more than one line
     if (this.#lines.length > 1) {
+      const { length } = this.#metadata.columns;
+      let tokenCount = this.#lines.reduce(
+        (sum, x) => sum + x.record.tokens.length,
+        0
+      );
+
       for (let skipCount = 0; skipCount < this.#lines.length; ++skipCount) {
+        // skipping more lines only leaves fewer columns
+        if (tokenCount < length) {
+          break;
+        }
+
         // merge the lines and try to parse them
-        const cols = this.#lines
-          .slice(skipCount)
-          .flatMap((x) => x.split(this.#delimiter));
-        const columns = this.#tryParseColumns(cols);
+        const records = this.#lines.slice(skipCount);
+        const parsed = this.#tryParseColumns(records);
 
         // if parsing succeeds, let unprocessed lines be the skipped lines
-        if (columns != null) {
-          const unprocessedLines = this.#lines.slice(0, skipCount);
+        if (parsed) {
+          const unprocessedLines = this.#lines.slice(0, skipCount).map((x) =>
+            toUnprocessedLine(x, {
+              ...x.rejection,
+              reason: "skipped-while-merging",
+            })
+          );
           this.#lines = [];
-          return {
-            columns,
-            unprocessedLines,
-          };
+          return this.#createOutput(parsed, records, [
+            ...evictedLines,
+            ...unprocessedLines,
+          ]);
         }
+
+        tokenCount -= this.#lines[skipCount].record.tokens.length;
       }
     }
 
     // otherwise, return indicating that we couldn't parse any data
     return {
       columns: null,
-      unprocessedLines: [],
+      unprocessedLines: evictedLines,
+    };
+  }
+
+  #createOutput(
+    parsed: ParsedColumns,
+    records: readonly NumberedRecord[],
+    unprocessedLines: readonly UnprocessedLine[]
+  ): ParseOutput {
+    if (parsed.ambiguous) {
+      return {
+        columns: null,
+        unprocessedLines,
+        ambiguousLines: records.map((x) =>
+          toUnprocessedLine(x, { reason: "ambiguous" })
+        ),
+      };
+    }
+
+    const repair = this.#audit
+      ? this.#getRepair(parsed.values, records)
+      : undefined;
+    const lineNumbers = records.flatMap((x) => x.lineNumbers);
+    return {
+      columns: parsed.columns,
+      unprocessedLines,
+      ...(lineNumbers.length > 1 && { lineNumbers }),
+      ...(repair && { repair }),
+    };
+  }
+
+  #getRepair(
+    values: readonly ColumnValue[],
+    records: readonly NumberedRecord[]
+  ): Repair | undefined {
+    const { columns } = this.#metadata;
+    const merges = values.flatMap(({ end, start }, i) =>
+      end - start > 1
+        ? [
+            {
+              column: columns[i].name,
+              tokens: Array.from({ length: end - start }, (_, j) => start + j),
+            },
+          ]
+        : []
+    );
+
+    if (records.length === 1 && !merges.length) {
+      return undefined;
+    }
+
+    return {
+      lineNumbers: records.flatMap((x) => x.lineNumbers),
+      tokens: records.flatMap((x) => x.record.tokens),
+      merges,
+      anchors: columns.flatMap((x, i) =>
+        x.isAnchor ? [{ column: x.name, token: values[i].start }] : []
+      ),
+    };
+  }
+
+  #tryParseColumns(records: readonly NumberedRecord[]): ParsedColumns | null {
+    // pick the first candidate with the highest score
+    let best: Candidate | undefined;
+    let second: Candidate | undefined;
+    for (const candidate of this.#getCandidates(records)) {
+      if (!best || candidate.score > best.score) {
+        second = best;
+        best = candidate;
+      } else if (!second || candidate.score > second.score) {
+        second = candidate;
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    return {
+      columns: best.columns,
+      values: best.values,
+      ambiguous:
+        this.#ambiguityMargin !== undefined &&
+        second !== undefined &&
+        best.score - second.score <= this.#ambiguityMargin,
     };
   }
 
-  #tryParseColumns(cols: readonly string[]): readonly string[] | null {
+  /**
+   * Enumerates the distinct ways of assigning the specified columns to the {@link FileMetadata} columns. Each anchor
+   * column can match at any position, and the extra columns before it can be merged into any of the previous
+   * columns. At most {@link MAX_CANDIDATES} candidates are returned.
+   *
+   * The first candidate is the one that matches each anchor as early as possible and merges the extra columns into
+   * the column right before the anchor.
+   */
+  #getCandidates(records: readonly NumberedRecord[]): readonly Candidate[] {
     const { anchorColumns, columns } = this.#metadata;
-    const result: string[] = [];
+    const result: Candidate[] = [];
+
+    // the separators in-between columns: there's no delimiter in-between the columns of different lines
+    const cols = records.flatMap((x) => x.record.tokens);
+    const separators = records.flatMap((x, i) =>
+      i ? [this.#newlineReplacement, ...x.separators] : x.separators
+    );
+    const join = (start: number, end: number): string => {
+      let value = cols[start];
+      for (let i = start + 1; i < end; ++i) {
+        value += separators[i - 1] + cols[i];
+      }
+
+      return value;
+    };
 
     // if there are not enough columns for parsing
     if (cols.length < columns.length) {
-      return null;
+      return result;
     }
 
-    // for each anchor column
-    let colIndex = 0;
-    for (const anchor of anchorColumns) {
-      // if we've run out of columns, return `null`
-      if (colIndex + anchor.previousColumns > cols.length) {
-        return null;
+    // the column index that follows an anchor column match
+    const getNextIndex = (anchorIndex: number, position: number) =>
+      anchorColumns[anchorIndex].metadata ? position + 1 : position;
+
+    // whether the columns from `colIndex` onwards can be assigned to the anchors from `anchorIndex` onwards
+    const feasibility = new Map<number, boolean>();
+    const isFeasible = (anchorIndex: number, colIndex: number): boolean => {
+      if (anchorIndex === anchorColumns.length) {
+        return colIndex === cols.length;
       }
 
-      // advance and store the previous columns
-      for (let i = 0; i < anchor.previousColumns; ++i) {
-        result.push(cols[colIndex++]);
+      const key = anchorIndex * (cols.length + 1) + colIndex;
+      let feasible = feasibility.get(key);
+      if (feasible === undefined) {
+        feasible = this.#getAnchorPositions(anchorIndex, colIndex, cols).some(
+          (x) => isFeasible(anchorIndex + 1, getNextIndex(anchorIndex, x))
+        );
+        feasibility.set(key, feasible);
       }
 
-      if (anchor.metadata) {
-        // advance until the anchor column matches
-        let extraColIndex = 0;
-        while (
-          !anchor.metadata.unbounded &&
-          !anchor.metadata.uniqueValues.has(cols[colIndex + extraColIndex])
-        ) {
-          // if we've run out of columns, return `null`
-          if (++extraColIndex + colIndex >= cols.length) {
-            return null;
-          }
-        }
+      return feasible;
+    };
 
-        // if there's extra columns and no previous columns, return `null`
-        if (extraColIndex > 0 && anchor.previousColumns === 0) {
-          return null;
+    const seen = new Set<string>();
+    const visit = (
+      anchorIndex: number,
+      colIndex: number,
+      values: readonly ColumnValue[]
+    ): void => {
+      if (anchorIndex === anchorColumns.length) {
+        // different merges may result in the same values
+        const candidateColumns = values.map((x) => x.value);
+        const key = JSON.stringify(candidateColumns);
+        if (!seen.has(key)) {
+          seen.add(key);
+          result.push({
+            columns: candidateColumns,
+            values,
+            score: candidateColumns.reduce(
+              (sum, x, i) => sum + columns[i].score(x),
+              0
+            ),
+          });
         }
 
-        // append the extra columns to the latest column
-        for (let i = 0; i < extraColIndex; ++i) {
-          result[result.length - 1] +=
-            this.#mergeSeparator + cols[colIndex + i];
+        return;
+      }
+
+      const { metadata, previousColumns } = anchorColumns[anchorIndex];
+      for (const position of this.#getAnchorPositions(
+        anchorIndex,
+        colIndex,
+        cols
+      )) {
+        const nextIndex = getNextIndex(anchorIndex, position);
+        if (!isFeasible(anchorIndex + 1, nextIndex)) {
+          continue;
         }
 
-        // append the anchor column value
-        result[colIndex] = cols[colIndex + extraColIndex];
+        for (const merged of this.#distribute(
+          join,
+          colIndex,
+          position,
+          previousColumns,
+          values.length
+        )) {
+          if (result.length === MAX_CANDIDATES) {
+            return;
+          }
 
-        // advance the column index
-        colIndex += extraColIndex + 1;
-      } else {
-        // invisible anchor: merge all remaining columns
-        while (colIndex < cols.length) {
-          result[result.length - 1] += this.#mergeSeparator + cols[colIndex++];
+          visit(
+            anchorIndex + 1,
+            nextIndex,
+            metadata
+              ? [
+                  ...values,
+                  ...merged,
+                  { value: cols[position], start: position, end: position + 1 },
+                ]
+              : [...values, ...merged]
+          );
         }
       }
+    };
+
+    visit(0, 0, []);
+
+    return result;
+  }
+
+  /**
+   * Explains why the specified columns can't be assigned to the {@link FileMetadata} columns, by following the
+   * earliest match of each anchor column until one fails.
+   */
+  #explain(cols: readonly string[]): Rejection {
+    const { anchorColumns, columns } = this.#metadata;
+    if (cols.length < columns.length) {
+      return { reason: "too-few-columns" };
     }
 
-    // if we didn't consume all the columns, return `null`
+    let colIndex = 0;
+    for (let i = 0; i < anchorColumns.length; ++i) {
+      const { metadata } = anchorColumns[i];
+      const [position] = this.#getAnchorPositions(i, colIndex, cols);
+      if (position === undefined) {
+        return metadata
+          ? { reason: "no-anchor-match", column: metadata.name }
+          : { reason: "too-few-columns" };
+      }
+
+      colIndex = metadata ? position + 1 : position;
+    }
+
+    // if the last column is an anchor column, there's no column to merge the remaining columns into
     if (colIndex < cols.length) {
-      return null;
+      return { reason: "leftover-columns" };
+    }
+
+    // every anchor column matches, so the merges must be too long
+    return { reason: "max-length-exceeded" };
+  }
+
+  /**
+   * Gets the positions at which an anchor column can match, starting at the specified column index. The invisible
+   * final anchor "matches" right after the last column, since it takes all the remaining columns.
+   */
+  #getAnchorPositions(
+    anchorIndex: number,
+    colIndex: number,
+    cols: readonly string[]
+  ): number[] {
+    const { metadata, previousColumns } =
+      this.#metadata.anchorColumns[anchorIndex];
+
+    // invisible anchor: takes all remaining columns
+    if (!metadata) {
+      return colIndex + previousColumns <= cols.length ? [cols.length] : [];
+    }
+
+    // if there are no previous columns, the anchor must match right away
+    const last = previousColumns ? cols.length - 1 : colIndex;
+
+    const result: number[] = [];
+    for (let i = colIndex + previousColumns; i <= last; ++i) {
+      if (metadata.matches(cols[i])) {
+        result.push(i);
+      }
     }
 
     return result;
   }
+
+  /**
+   * Enumerates the ways of merging the consecutive columns from `start` to `end` (exclusive) into the specified number
+   * of columns, starting at the specified {@link FileMetadata} column index. The first result merges all the extra
+   * columns into the last one.
+   * @param join Merges the columns from a start index to an end index (exclusive).
+   */
+  *#distribute(
+    join: (start: number, end: number) => string,
+    start: number,
+    end: number,
+    count: number,
+    columnIndex: number
+  ): Generator<readonly ColumnValue[]> {
+    const length = end - start;
+    if (count === 0) {
+      if (!length) {
+        yield [];
+      }
+    } else if (count === 1) {
+      const value = length ? join(start, end) : "";
+      if (
+        length &&
+        !(length > 1 && this.#exceedsMaxLength(columnIndex, value))
+      ) {
+        yield [{ value, start, end }];
+      }
+    } else {
+      for (let size = 1; size <= length - count + 1; ++size) {
+        const head = join(start, start + size);
+
+        // longer merges would exceed the maximum length too
+        if (size > 1 && this.#exceedsMaxLength(columnIndex, head)) {
+          break;
+        }
+
+        for (const tail of this.#distribute(
+          join,
+          start + size,
+          end,
+          count - 1,
+          columnIndex + 1
+        )) {
+          yield [{ value: head, start, end: start + size }, ...tail];
+        }
+      }
+    }
+  }
+
+  #exceedsMaxLength(columnIndex: number, value: string): boolean {
+    if (!this.#enforceMaxLength) {
+      return false;
+    }
+
+    const { count, maxLength } = this.#metadata.columns[columnIndex];
+    return count > 0 && value.length > maxLength;
+  }
+}
+
+function toUnprocessedLine(
+  { lineNumbers, record }: NumberedRecord,
+  rejection: Rejection
+): UnprocessedLine {
+  return {
+    lineNumber: lineNumbers[0],
+    columns: record.tokens.length,
+    ...rejection,
+    text: record.text,
+  };
 }
@@ -0,0 +1,127 @@
+import { validateInteger } from "./json-validation.js";
+
+/** The current version of the metadata JSON format. */
+export const METADATA_VERSION = 7;
+
+type Migration = (obj: Record<string, unknown>) => Record<string, unknown>;
+
+/** The functions that migrate a metadata JSON object to the next version, indexed by the version they migrate from. */
+const MIGRATIONS: Readonly<Record<number, Migration>> = {
+  // version 1 had no version field, and the column cardinalities were ignored: drop them since they're derived
+  1: (obj) => ({
+    ...obj,
+    columns: Array.isArray(obj.columns)
+      ? obj.columns.map((x) => {
+          if (typeof x !== "object" || x === null) {
+            return x;
+          }
+
+          const { cardinality, ...column } = x;
+          return column;
+        })
+      : obj.columns,
+    version: 2,
+  }),
+  // version 2 had no header and column names parameters: the first record was a header if and only if the number
+  // of columns wasn't specified
+  2: (obj) =>
+    migrateParameters(obj, 3, (parameters) => ({
+      ...parameters,
+      columnNames: null,
+      header: parameters.numberOfColumns === null,
+    })),
+  // version 3 had no regular expression delimiters
+  3: (obj) =>
+    migrateParameters(obj, 4, (parameters) => ({
+      ...parameters,
+      delimiterRegex: false,
+    })),
+  // version 4 had no sampling
+  4: (obj) =>
+    migrateParameters(obj, 5, (parameters) => ({
+      ...parameters,
+      sample: null,
+    })),
+  // version 5 had no relative cardinality, and the columns didn't record their maximum cardinality: it was always the
+  // maximum cardinality parameter
+  5: (obj) => {
+    const result = migrateParameters(obj, 6, (parameters) => ({
+      ...parameters,
+      maxRelativeCardinality: null,
+    }));
+    const { columns, source } = result;
+    const maxCardinality = (
+      (source as Record<string, unknown> | undefined)?.parameters as
+        | Record<string, unknown>
+        | undefined
+    )?.maxCardinality;
+
+    return Array.isArray(columns) && maxCardinality !== undefined
+      ? {
+          ...result,
+          columns: columns.map((x) =>
+            typeof x === "object" && x !== null ? { ...x, maxCardinality } : x
+          ),
+        }
+      : result;
+  },
+  // version 6 had no limit on the number of lines a record can span
+  6: (obj) =>
+    migrateParameters(obj, 7, (parameters) => ({
+      ...parameters,
+      maxRecordLines: null,
+    })),
+};
+
+/**
+ * Migrates a metadata JSON object of any supported version to {@link METADATA_VERSION}. The result still needs to be
+ * validated.
+ * @param json The metadata JSON object.
+ */
+export function migrateMetadataJson(json: unknown): unknown {
+  // leave invalid objects to the validation
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    return json;
+  }
+
+  let obj = json as Record<string, unknown>;
+  let version = validateInteger(obj.version ?? 1, "version", 1);
+
+  if (version > METADATA_VERSION) {
+    throw new Error(
+      `Unsupported metadata version: ${version}. The latest supported version is ${METADATA_VERSION}.`
+    );
+  }
+
+  for (; version < METADATA_VERSION; ++version) {
+    obj = MIGRATIONS[version](obj);
+  }
+
+  return obj;
+}
+
+/** Migrates the source parameters of a metadata JSON object, if there are any. */
+function migrateParameters(
+  obj: Record<string, unknown>,
+  version: number,
+  migrate: Migration
+): Record<string, unknown> {
+  const { source } = obj;
+  if (typeof source !== "object" || source === null) {
+    return { ...obj, version };
+  }
+
+  const { parameters } = source as Record<string, unknown>;
+  if (typeof parameters !== "object" || parameters === null) {
+    return { ...obj, version };
+  }
+
+  return {
+    ...obj,
+    source: {
+      ...source,
+      parameters: migrate(parameters as Record<string, unknown>),
+    },
+    version,
+  };
+}
@@ -0,0 +1,192 @@
+import { readFile } from "node:fs/promises";
+
+import { validateColumn } from "./column-rule.js";
+import { FileMetadata } from "./file-metadata.js";
+import {
+  getJsonPath,
+  invalidField,
+  validateArray,
+  validateBoolean,
+  validateObject,
+  validateOneOf,
+  validateString,
+} from "./json-validation.js";
+
+/**
+ * A user-supplied override of a column's metadata, which is applied after the metadata is built, so that it's not
+ * lost when the metadata is rebuilt.
+ *
+ * For example, the following override makes the `hobbies` column unbounded even if it looks bounded, and renames it:
+ * ```
+ * { "column": "hobbies", "unbounded": true, "name": "interests" }
+ * ```
+ *
+ * And the following override lets the `force_alignment` column have the `Grey` value:
+ * ```
+ * { "column": "force_alignment", "addValues": ["Grey"] }
+ * ```
+ */
+export interface MetadataOverride {
+  /** The column name before renaming it, or its 1-based index. */
+  readonly column: number | string;
+
+  /** The new name of the column. */
+  readonly name?: string;
+
+  /**
+   * Forces the column to be bounded or unbounded. A column that exceeded the maximum cardinality has no unique values
+   * when it's made bounded, except for the {@link addValues}.
+   */
+  readonly unbounded?: boolean;
+
+  /** The values to add to the unique values of the column. The column must be bounded. */
+  readonly addValues?: readonly string[];
+
+  /** The values to remove from the unique values of the column. The column must be bounded. */
+  readonly removeValues?: readonly string[];
+
+  /** Set to `false` to never use the column as an anchor column. */
+  readonly anchor?: false;
+}
+
+/** The fields of a {@link MetadataOverride} JSON object. */
+const OVERRIDE_FIELDS: readonly string[] = [
+  "addValues",
+  "anchor",
+  "column",
+  "name",
+  "removeValues",
+  "unbounded",
+];
+
+/** The valid values of the {@link MetadataOverride.anchor} field. */
+const ANCHOR_VALUES: ReadonlySet<false> = new Set([false] as const);
+
+/**
+ * Reads the {@link MetadataOverride}s from a JSON file that contains an array of overrides.
+ * @param filePath The path to the overrides file.
+ */
+export async function readMetadataOverrides(
+  filePath: string
+): Promise<readonly MetadataOverride[]> {
+  const buffer = await readFile(filePath);
+  return validateArray(
+    JSON.parse(buffer.toString()),
+    "",
+    validateMetadataOverride
+  );
+}
+
+/**
+ * Applies {@link MetadataOverride}s to the {@link FileMetadata} of a file, e.g. before its anchor columns are used.
+ * @param metadata The metadata. It's not modified.
+ * @param overrides The overrides to apply.
+ * @returns The overridden metadata, with the same source.
+ */
+export function applyMetadataOverrides(
+  metadata: FileMetadata,
+  overrides: readonly MetadataOverride[]
+): FileMetadata {
+  const columns = metadata.columns.map((x) => x.copy());
+  const names = columns.map((x) => x.name);
+
+  for (const override of overrides) {
+    const { addValues, anchor, column, name, removeValues, unbounded } =
+      override;
+    const index =
+      typeof column === "number" ? column - 1 : names.indexOf(column);
+    if (!columns[index]) {
+      throw new Error(`Unknown column in override: ${column}.`);
+    }
+
+    if (name !== undefined) {
+      columns[index] = columns[index].copy(name);
+    }
+
+    const result = columns[index];
+
+    if (unbounded !== undefined) {
+      result.setUnbounded(unbounded);
+    }
+
+    if (addValues || removeValues) {
+      if (result.unbounded) {
+        throw new Error(
+          `Invalid override of column ${column}. Values can't be added to or removed from an unbounded column, unless it's made bounded.`
+        );
+      }
+
+      result.addUniqueValues(addValues ?? []);
+      result.deleteUniqueValues(removeValues ?? []);
+    }
+
+    if (anchor !== undefined) {
+      result.setAnchor(anchor);
+    }
+  }
+
+  const renamed = columns.map((x) => x.name);
+  const duplicate = renamed.find((x, i) => renamed.indexOf(x) !== i);
+  if (duplicate !== undefined) {
+    throw new Error(
+      `Invalid overrides. The column names must be unique, but ${duplicate} is repeated.`
+    );
+  }
+
+  return new FileMetadata(columns, metadata.source);
+}
+
+function validateMetadataOverride(
+  value: unknown,
+  path: string
+): MetadataOverride {
+  const { addValues, anchor, column, name, removeValues, unbounded } =
+    validateObject(value, path, OVERRIDE_FIELDS);
+  const field = (key: string) => getJsonPath(path, key);
+
+  const result: MetadataOverride = {
+    column: validateColumn(column, field("column")),
+    ...(name !== undefined && {
+      name: validateName(name, field("name")),
+    }),
+    ...(unbounded !== undefined && {
+      unbounded: validateBoolean(unbounded, field("unbounded")),
+    }),
+    ...(addValues !== undefined && {
+      addValues: validateArray(addValues, field("addValues"), validateString),
+    }),
+    ...(removeValues !== undefined && {
+      removeValues: validateArray(
+        removeValues,
+        field("removeValues"),
+        validateString
+      ),
+    }),
+    ...(anchor !== undefined && {
+      anchor: validateOneOf(anchor, field("anchor"), ANCHOR_VALUES),
+    }),
+  };
+
+  if (Object.keys(result).length === 1) {
+    throw new Error(
+      `Invalid override: ${path}. It must override at least one of: name, unbounded, addValues, removeValues or anchor.`
+    );
+  }
+
+  if (result.unbounded && (result.addValues || result.removeValues)) {
+    throw new Error(
+      `Invalid override: ${path}. Values can't be added to or removed from an unbounded column.`
+    );
+  }
+
+  return result;
+}
+
+function validateName(value: unknown, path: string): string {
+  const name = validateString(value, path);
+  if (!name) {
+    invalidField(path, "a non-empty string", name);
+  }
+
+  return name;
+}
@@ -0,0 +1,175 @@
+import { applyColumnRules } from "./column-rule.js";
+import {
+  FileMetadataBuilder,
+  FileMetadataBuilderOptions,
+} from "./file-metadata-builder.js";
+import {
+  FileMetadata,
+  createHeaderSkipper,
+  hasHeader,
+} from "./file-metadata.js";
+import { GetFileLinesInput, getFileLines } from "./file-utils.js";
+import { LineParser, LineParserOptions } from "./line-parser.js";
+import {
+  MetadataOverride,
+  applyMetadataOverrides,
+} from "./metadata-override.js";
+
+export interface RefineMetadataInput
+  extends GetFileLinesInput,
+    FileMetadataBuilderOptions,
+    LineParserOptions {
+  /** The maximum number of iterations, including the one that built the metadata to refine. */
+  readonly iterations: number;
+
+  /** The value in-between merged columns. Defaults to `" "`. */
+  readonly mergeSeparator?: string;
+
+  /** The {@link MetadataOverride}s to apply to the metadata of each iteration. */
+  readonly overrides?: readonly MetadataOverride[];
+}
+
+/** How the anchor columns changed in an iteration. */
+export interface AnchorChange {
+  /** The 1-based number of the iteration. The first iteration built the metadata to refine. */
+  readonly iteration: number;
+
+  /** The names of the anchor columns after the iteration. */
+  readonly anchors: readonly string[];
+
+  /** The names of the columns that became anchor columns. */
+  readonly added: readonly string[];
+
+  /** The names of the columns that stopped being anchor columns. */
+  readonly removed: readonly string[];
+}
+
+export interface RefineMetadataOutput {
+  /** The refined metadata. */
+  readonly metadata: FileMetadata;
+
+  /** How the anchor columns changed in each iteration after the first. */
+  readonly anchorChanges: readonly AnchorChange[];
+}
+
+/**
+ * Refines the {@link FileMetadata} of a delimited file, which is built from its well-formed lines only. In badly
+ * broken files, those may be a biased subset of the rows.
+ *
+ * In each iteration, the file is parsed with a {@link LineParser} that uses the metadata of the previous iteration,
+ * and the metadata is rebuilt from the parsed rows: both the well-formed and the repaired ones, but not the ambiguous
+ * ones. The iterations stop once the anchor columns don't change, or after {@link RefineMetadataInput.iterations}.
+ * @param metadata The metadata built from the well-formed lines, i.e. of the first iteration, without the
+ * {@link RefineMetadataInput.overrides}.
+ * @param input The {@link RefineMetadataInput}.
+ */
+export async function refineMetadata(
+  metadata: FileMetadata,
+  input: RefineMetadataInput
+): Promise<RefineMetadataOutput> {
+  const { iterations, overrides, rules } = input;
+  const anchorChanges: AnchorChange[] = [];
+  const override = (x: FileMetadata) =>
+    overrides ? applyMetadataOverrides(x, overrides) : x;
+
+  // the rules refer to the columns by their names before the overrides rename them
+  const columnNames = metadata.columns.map((x) => x.name);
+
+  let result = override(metadata);
+  for (let iteration = 2; iteration <= iterations; ++iteration) {
+    const columns = [
+      ...(await rebuildMetadata(result, columnNames, input)).columns,
+    ];
+    if (rules) {
+      applyColumnRules(columns, rules);
+    }
+
+    const previous = getAnchorNames(result);
+    result = override(new FileMetadata(columns));
+
+    const anchors = getAnchorNames(result);
+    const added = anchors.filter((x) => !previous.includes(x));
+    const removed = previous.filter((x) => !anchors.includes(x));
+    anchorChanges.push({ iteration, anchors, added, removed });
+    if (!added.length && !removed.length) {
+      break;
+    }
+  }
+
+  return { metadata: result, anchorChanges };
+}
+
+/** Builds the metadata of the rows parsed with the metadata of the previous iteration. */
+async function rebuildMetadata(
+  metadata: FileMetadata,
+  columnNames: readonly string[],
+  input: RefineMetadataInput
+): Promise<FileMetadata> {
+  const {
+    ambiguityMargin,
+    decodeEscapes,
+    delimiter,
+    encoding,
+    enforceMaxLength,
+    escape,
+    filePath,
+    keepDelimiters,
+    maxCardinality,
+    maxMergeLines,
+    maxRecordLines,
+    maxRelativeCardinality,
+    mergeSeparator,
+    newlineReplacement,
+    quote,
+    rules,
+  } = input;
+  const tokenizerOptions = { decodeEscapes, escape, maxRecordLines, quote };
+
+  const builder = new FileMetadataBuilder({
+    ...tokenizerOptions,
+    columnNames,
+    delimiter,
+    maxCardinality,
+    maxRelativeCardinality,
+    rules,
+  });
+  const parser = new LineParser(delimiter, metadata, mergeSeparator, {
+    ...tokenizerOptions,
+    ambiguityMargin,
+    enforceMaxLength,
+    keepDelimiters,
+    maxMergeLines,
+    newlineReplacement,
+  });
+
+  const isHeader = createHeaderSkipper(hasHeader(input), {
+    ...tokenizerOptions,
+    delimiter,
+  });
+  let lineNumber = 0;
+  for await (const line of getFileLines({ encoding, filePath })) {
+    ++lineNumber;
+    if (isHeader(line)) {
+      continue;
+    }
+
+    const { columns } = parser.parse(line, lineNumber);
+    if (columns) {
+      builder.addRow(columns);
+    }
+  }
+
+  const { columns } = parser.flush();
+  if (columns) {
+    builder.addRow(columns);
+  }
+
+  return builder.build();
+}
+
+/** Gets the names of the anchor columns, excluding the invisible final column. */
+function getAnchorNames(metadata: FileMetadata): string[] {
+  return metadata.anchorColumns.flatMap((x) =>
+    x.metadata ? [x.metadata.name] : []
+  );
+}
@@ -0,0 +1,178 @@
+import { open } from "node:fs/promises";
+
+import { BOM, decodeText, encodeText } from "./encoding.js";
+import {
+  GetFileLinesInput,
+  getFileLines,
+  getLineRanges,
+  readLineBytes,
+} from "./file-utils.js";
+
+/**
+ * How the lines of a file are sampled:
+ * - `first`: the first lines of the file.
+ * - `reservoir`: lines chosen uniformly at random from the whole file, which is still read in full.
+ * - `stride`: the first line after each of evenly spaced byte offsets, so that only parts of the file are read.
+ */
+export type SampleStrategy = "first" | "reservoir" | "stride";
+
+/** A sample of the lines of a file. */
+export interface MetadataSample {
+  /** The sampling strategy. */
+  readonly strategy: SampleStrategy;
+
+  /** The maximum number of lines to sample, excluding the leading lines. */
+  readonly size: number;
+}
+
+export interface GetSampleLinesInput extends GetFileLinesInput {
+  /** The number of lines at the start of the file that are always yielded, e.g. the header. Defaults to `0`. */
+  readonly leadingLines?: number;
+
+  /** The sample. */
+  readonly sample: MetadataSample;
+}
+
+/** The sampling strategies. */
+export const SAMPLE_STRATEGIES: ReadonlySet<SampleStrategy> =
+  new Set<SampleStrategy>(["first", "reservoir", "stride"]);
+
+/** The seed of the pseudo-random numbers of the `reservoir` strategy, so that the samples are reproducible. */
+const RANDOM_SEED = 1;
+
+/**
+ * Parses a {@link MetadataSample} in the `{strategy}:{size}` format, e.g. `reservoir:10000`.
+ * @returns The sample, or `undefined` if the value is invalid.
+ */
+export function parseMetadataSample(value: string): MetadataSample | undefined {
+  const match = /^([a-z]+):(\d+)$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, strategy, size] = match;
+  return SAMPLE_STRATEGIES.has(strategy as SampleStrategy) && Number(size) > 0
+    ? { strategy: strategy as SampleStrategy, size: Number(size) }
+    : undefined;
+}
+
+/**
+ * Returns an async generator that yields the leading lines of a text file, followed by a sample of the rest of its
+ * lines in file order. A byte order mark at the start of the file is not yielded.
+ *
+ * The `stride` strategy reads the file from evenly spaced byte offsets, so a record that spans lines may be sampled
+ * partially, and only `"\n"` and `"\r\n"` line endings are supported.
+ */
+export async function* getSampleLines(
+  input: GetSampleLinesInput
+): AsyncGenerator<string> {
+  const { leadingLines = 0, sample } = input;
+  const { size, strategy } = sample;
+
+  if (strategy === "first") {
+    let count = 0;
+    for await (const line of getFileLines(input)) {
+      if (count++ === leadingLines + size) {
+        break;
+      }
+
+      yield line;
+    }
+  } else if (strategy === "reservoir") {
+    yield* getReservoirLines(input, leadingLines, size);
+  } else {
+    yield* getStrideLines(input, leadingLines, size);
+  }
+}
+
+/** Samples lines with reservoir sampling, i.e. each line has the same probability of being sampled. */
+async function* getReservoirLines(
+  input: GetFileLinesInput,
+  leadingLines: number,
+  size: number
+): AsyncGenerator<string> {
+  const random = createRandom(RANDOM_SEED);
+  const reservoir: (readonly [number, string])[] = [];
+
+  let index = 0;
+  for await (const line of getFileLines(input)) {
+    if (index < leadingLines) {
+      yield line;
+    } else {
+      const i = index - leadingLines;
+      if (i < size) {
+        reservoir.push([i, line]);
+      } else {
+        const j = Math.floor(random() * (i + 1));
+        if (j < size) {
+          reservoir[j] = [i, line];
+        }
+      }
+    }
+
+    ++index;
+  }
+
+  for (const [, line] of reservoir.sort(([a], [b]) => a - b)) {
+    yield line;
+  }
+}
+
+/** Samples the first line of each of the ranges of the file that {@link getLineRanges} splits it into. */
+async function* getStrideLines(
+  input: GetFileLinesInput,
+  leadingLines: number,
+  size: number
+): AsyncGenerator<string> {
+  const { encoding = "utf8", filePath } = input;
+  const newline = encodeText("\n", encoding);
+  const decode = (bytes: Buffer, position: number): string => {
+    const text = decodeText(bytes, encoding).replace(/\r$/, "");
+    return position === 0 && text.startsWith(BOM)
+      ? text.slice(BOM.length)
+      : text;
+  };
+
+  const file = await open(filePath);
+  try {
+    let position = 0;
+    for (let i = 0; i < leadingLines; ++i) {
+      const line = await readLineBytes(file, position, newline);
+      if (!line) {
+        return;
+      }
+
+      yield decode(line.bytes, position);
+      position = line.end;
+    }
+
+    // long lines may contain more than one offset, in which case there are fewer ranges
+    const ranges = await getLineRanges({
+      count: size,
+      encoding,
+      filePath,
+      start: position,
+    });
+    for (const { start } of ranges) {
+      const line = await readLineBytes(file, start, newline);
+      if (!line) {
+        break;
+      }
+
+      yield decode(line.bytes, start);
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+/** Creates a seeded pseudo-random number generator (mulberry32) that returns numbers between `0` and `1`. */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
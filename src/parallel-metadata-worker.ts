@@ -0,0 +1,18 @@
+/**
+ * The entry point of the worker threads of `buildMetadataInParallel`, which build the metadata of a range of a
+ * file and post the JSON of its columns' metadata.
+ */
+
+import { parentPort, workerData } from "node:worker_threads";
+
+import { FileMetadataBuilder } from "./file-metadata-builder.js";
+import { getFileLines } from "./file-utils.js";
+import type { MetadataWorkerData } from "./parallel-metadata.js";
+
+const { encoding, filePath, options, range } = workerData as MetadataWorkerData;
+const builder = await FileMetadataBuilder.fromAsyncIterable(
+  getFileLines({ ...range, encoding, filePath }),
+  options
+);
+
+parentPort?.postMessage(builder.build().columns.map((x) => x.toJSON()));
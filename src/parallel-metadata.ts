@@ -0,0 +1,162 @@
+import { Worker } from "node:worker_threads";
+
+import { getCardinalityThresholds } from "./column-rule.js";
+import type { FileEncoding } from "./encoding.js";
+import {
+  FileMetadataBuilder,
+  FileMetadataBuilderOptions,
+} from "./file-metadata-builder.js";
+import { ColumnMetadata, FileMetadata, hasHeader } from "./file-metadata.js";
+import {
+  ByteRange,
+  GetFileLinesInput,
+  getFileLines,
+  getLineRanges,
+} from "./file-utils.js";
+
+export interface BuildMetadataInParallelInput
+  extends GetFileLinesInput,
+    FileMetadataBuilderOptions {
+  /** The maximum number of worker threads. */
+  readonly workers: number;
+}
+
+/** The data of a worker thread of {@link buildMetadataInParallel}. */
+export interface MetadataWorkerData {
+  /** The file's encoding. */
+  readonly encoding?: FileEncoding;
+
+  /** The file path. */
+  readonly filePath: string;
+
+  /** The options of the {@link FileMetadataBuilder} of the range. */
+  readonly options: FileMetadataBuilderOptions;
+
+  /** The range of the file to build the metadata of. */
+  readonly range: ByteRange;
+}
+
+/** The worker thread entry point, with the same extension as this module, i.e. `.ts` when it's run with `tsx`. */
+const WORKER_URL = new URL(
+  `./parallel-metadata-worker${/\.[^.]+$/.exec(import.meta.url)?.[0]}`,
+  import.meta.url
+);
+
+/**
+ * Builds the {@link FileMetadata} of a delimited file with worker threads, each of which builds the metadata of a
+ * range of lines of the file. The metadata of the ranges is merged in file order.
+ *
+ * The ranges are split at line breaks, so a record that spans lines may be split between ranges.
+ */
+export async function buildMetadataInParallel(
+  input: BuildMetadataInParallelInput
+): Promise<FileMetadata> {
+  const {
+    columnNames,
+    decodeEscapes,
+    delimiter,
+    encoding,
+    escape,
+    filePath,
+    header,
+    maxCardinality,
+    maxRecordLines,
+    maxRelativeCardinality,
+    numberOfColumns,
+    quote,
+    rules,
+    workers,
+  } = input;
+  const options: FileMetadataBuilderOptions = {
+    columnNames,
+    decodeEscapes,
+    delimiter,
+    escape,
+    header,
+    maxCardinality,
+    maxRecordLines,
+    maxRelativeCardinality,
+    numberOfColumns,
+    quote,
+    rules,
+  };
+
+  // get the column names from the first record, so that the rows of every range are matched against the same columns
+  const first = new FileMetadataBuilder(options);
+  for await (const line of getFileLines({ encoding, filePath })) {
+    if (first.add(line).columnNames) {
+      break;
+    }
+  }
+
+  const names = first.columnNames;
+  if (!names) {
+    return first.build();
+  }
+
+  // the relative cardinality thresholds only apply to the whole file, so they're applied after merging the ranges
+  const ranges = await getLineRanges({ count: workers, encoding, filePath });
+  const results = await Promise.all(
+    ranges.map((range, i) =>
+      runWorker({
+        encoding,
+        filePath,
+        options: {
+          ...options,
+          columnNames: names,
+          header: i === 0 && hasHeader(options),
+          maxRelativeCardinality: undefined,
+          rules: rules?.map((x) => ({
+            ...x,
+            maxRelativeCardinality: undefined,
+          })),
+        },
+        range,
+      })
+    )
+  );
+
+  const thresholds = getCardinalityThresholds(names, rules, {
+    maxCardinality,
+    maxRelativeCardinality: maxRelativeCardinality ?? null,
+  });
+  const columns = names.map((x, i) =>
+    new ColumnMetadata(x).setCardinalityThreshold(thresholds[i])
+  );
+  for (const result of results) {
+    columns.forEach((x, i) =>
+      x.merge(ColumnMetadata.fromJson(result[i]), thresholds[i].maxCardinality)
+    );
+  }
+
+  return new FileMetadata(columns);
+}
+
+/**
+ * Runs a worker thread.
+ * @returns The JSON of the columns' metadata of the range.
+ */
+function runWorker(workerData: MetadataWorkerData): Promise<unknown[]> {
+  return new Promise((resolve, reject) => {
+    const worker = createWorker(workerData);
+    worker.once("message", resolve);
+    worker.once("error", reject);
+    worker.once("exit", (code) =>
+      reject(new Error(`The metadata worker exited with code ${code}.`))
+    );
+  });
+}
+
+function createWorker(workerData: MetadataWorkerData): Worker {
+  if (!WORKER_URL.pathname.endsWith(".ts")) {
+    return new Worker(WORKER_URL, { workerData });
+  }
+
+  // the module hooks of `tsx` are only registered in the main thread, so register them before importing the entry point
+  const code = `import("node:module")
+    .then((x) => x.register("tsx/esm", { parentURL: ${JSON.stringify(
+      import.meta.url
+    )}, data: true }))
+    .then(() => import(${JSON.stringify(WORKER_URL.href)}));`;
+  return new Worker(code, { eval: true, workerData });
+}
@@ -0,0 +1,57 @@
+export interface RowFormatterOptions {
+  /** The column delimiter. */
+  readonly delimiter: string;
+
+  /**
+   * The character used to quote values that contain delimiters, quotes or line breaks. Quotes inside a quoted value
+   * are escaped by doubling them (RFC 4180). If omitted, such values are not quoted: their delimiters and line breaks
+   * are replaced instead.
+   */
+  readonly quote?: string;
+
+  /** The value to replace the delimiters in the values with, if there's no quote character. Defaults to `" "`. */
+  readonly delimiterReplacement?: string;
+
+  /**
+   * The value to replace the line breaks in the values with, if there's no quote character. If omitted, the
+   * {@link delimiterReplacement} is used.
+   */
+  readonly newlineReplacement?: string;
+}
+
+/** The line breaks inside a value. */
+const LINE_BREAKS = /\r\n|\r|\n/g;
+
+/**
+ * Formats the column values of a row as a line of delimited text, without a line ending. Values that contain the
+ * delimiter or line breaks, e.g. quoted input values, are quoted or have them replaced, so that each row is a single
+ * line with the same number of columns.
+ * @param values The column values.
+ * @param options The {@link RowFormatterOptions}.
+ */
+export function formatRow(
+  values: readonly string[],
+  options: RowFormatterOptions
+): string {
+  const { delimiter, quote } = options;
+  const delimiterReplacement = options.delimiterReplacement ?? " ";
+  const newlineReplacement = options.newlineReplacement ?? delimiterReplacement;
+
+  const hasDelimiter = (value: string) =>
+    delimiter !== "" && value.includes(delimiter);
+
+  return values
+    .map((x) => {
+      if (quote) {
+        return hasDelimiter(x) || x.includes(quote) || /[\r\n]/.test(x)
+          ? quote + x.replaceAll(quote, quote + quote) + quote
+          : x;
+      }
+
+      const value = x.replace(LINE_BREAKS, newlineReplacement);
+      return hasDelimiter(value)
+        ? value.replaceAll(delimiter, delimiterReplacement)
+        : value;
+    })
+    .join(delimiter);
+}
@@ -0,0 +1,315 @@
+export interface TokenizerOptions {
+  /**
+   * The column delimiter. It can have more than one character (e.g. `~|~`), or be a regular expression (e.g. `/\t+/`)
+   * that doesn't match empty strings.
+   */
+  readonly delimiter: RegExp | string;
+
+  /**
+   * The character used to quote values that contain delimiters, quotes or new lines.
+   * Quotes inside a quoted value are escaped by doubling them (RFC 4180).
+   * If omitted, quotes are not interpreted.
+   */
+  readonly quote?: string;
+
+  /**
+   * The character used to escape delimiters, quotes, new lines and itself (e.g. `\|`, `\n`, `\\`).
+   * An escape character at the end of a line escapes the line break.
+   * If omitted, escape sequences are not interpreted.
+   */
+  readonly escape?: string;
+
+  /**
+   * Whether escape sequences are decoded (e.g. `\|` becomes `|` and `\n` becomes a new line).
+   * Otherwise, they're kept verbatim in the column values.
+   */
+  readonly decodeEscapes?: boolean;
+
+  /**
+   * The maximum number of lines a record can span because of quoted values or escaped line breaks, e.g. to give up on
+   * a quote that is never closed. A record that would span more lines is returned as
+   * {@link TokenizedRecord.truncated} once it spans this number of lines. If omitted, there's no limit.
+   */
+  readonly maxRecordLines?: number;
+}
+
+export interface TokenizedRecord {
+  /** The record's raw text. Contains more than one line if a quoted value or a line break is escaped. */
+  readonly text: string;
+
+  /** The record's column values. */
+  readonly tokens: readonly string[];
+
+  /** The delimiter text in-between each pair of consecutive column values. */
+  readonly delimiters: readonly string[];
+
+  /**
+   * Whether the record was cut short because it would span more than {@link TokenizerOptions.maxRecordLines} lines,
+   * i.e. its last quoted value or escaped line break ends with its last line. Omitted otherwise.
+   */
+  readonly truncated?: true;
+}
+
+const DECODED_ESCAPES: Readonly<Record<string, string>> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Splits lines into column values.
+ *
+ * A quoted value or an escaped line break can span lines, in which case {@link Tokenizer.tokenize} returns `null`
+ * until the line that completes the record is received, until the record spans
+ * {@link TokenizerOptions.maxRecordLines}, or until {@link Tokenizer.flush} is called at the end of the input.
+ */
+export class Tokenizer {
+  readonly #decodeEscapes: boolean;
+  readonly #delimiter: RegExp;
+  readonly #delimiterSearch: RegExp;
+  readonly #escape?: string;
+  readonly #maxRecordLines: number;
+  readonly #quote?: string;
+
+  #continuation: string | null = null;
+  #delimiters: string[] = [];
+  #inQuotes = false;
+  #lines: string[] = [];
+  #tokens: string[] = [];
+  #value = "";
+
+  /**
+   * Creates a new instance of the {@link Tokenizer} class.
+   * @param options The {@link TokenizerOptions}.
+   */
+  constructor(options: TokenizerOptions) {
+    const { decodeEscapes, delimiter, escape, maxRecordLines, quote } = options;
+
+    // delimiters are matched at a position with a sticky regular expression, and searched with a global one
+    const regex =
+      typeof delimiter === "string"
+        ? new RegExp(delimiter.replace(/[$()*+.?[\\\]^{|}]/g, "\\$&"), "y")
+        : new RegExp(
+            delimiter.source,
+            delimiter.flags.replace(/[gy]/g, "") + "y"
+          );
+    if (regex.test("")) {
+      throw new Error("The delimiter must not be empty.");
+    }
+
+    if (
+      maxRecordLines !== undefined &&
+      !(Number.isInteger(maxRecordLines) && maxRecordLines > 0)
+    ) {
+      throw new Error(
+        "The maximum number of record lines must be a positive integer."
+      );
+    }
+
+    if (
+      escape &&
+      (escape === quote ||
+        (typeof delimiter === "string"
+          ? delimiter.startsWith(escape)
+          : matchesAt(regex, escape, 0) !== null))
+    ) {
+      throw new Error(
+        "The escape character must be different from the delimiter and the quote character."
+      );
+    }
+
+    this.#decodeEscapes = decodeEscapes ?? false;
+    this.#delimiter = regex;
+    this.#delimiterSearch = new RegExp(
+      regex.source,
+      regex.flags.replace("y", "g")
+    );
+    this.#escape = escape || undefined;
+    this.#maxRecordLines = maxRecordLines ?? Infinity;
+    this.#quote = quote || undefined;
+  }
+
+  /**
+   * Tokenizes a line.
+   * @param line The line to tokenize.
+   * @returns The {@link TokenizedRecord} or `null` if the line ends inside a quoted value or with an escaped line
+   * break, unless the record already spans {@link TokenizerOptions.maxRecordLines}.
+   */
+  tokenize(line: string): TokenizedRecord | null {
+    this.#lines.push(line);
+    if (this.#scan(line)) {
+      return this.#takeRecord();
+    }
+
+    // give up on records that span too many lines, so that an unclosed quote doesn't consume the rest of the input
+    if (this.#lines.length >= this.#maxRecordLines) {
+      this.#endValue();
+      return { ...this.#takeRecord(), truncated: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Completes the pending record at the end of the input, as if its quoted value or escaped line break ended with the
+   * last line.
+   * @returns The {@link TokenizedRecord} or `null` if there's no pending record.
+   */
+  flush(): TokenizedRecord | null {
+    if (!this.#lines.length) {
+      return null;
+    }
+
+    this.#endValue();
+    return this.#takeRecord();
+  }
+
+  /** Ends the value that spans lines with the last line. */
+  #endValue(): void {
+    // keep the continuation except for the line break, e.g. the escape character of an escaped line break
+    this.#value += this.#continuation?.slice(0, -1) ?? "";
+    this.#continuation = null;
+    this.#inQuotes = false;
+    this.#pushValue();
+  }
+
+  #takeRecord(): TokenizedRecord {
+    const result: TokenizedRecord = {
+      text: this.#lines.join("\n"),
+      tokens: this.#tokens,
+      delimiters: this.#delimiters,
+    };
+    this.#delimiters = [];
+    this.#lines = [];
+    this.#tokens = [];
+
+    return result;
+  }
+
+  /** Scans a line and returns whether the record is complete. */
+  #scan(line: string): boolean {
+    const delimiter = this.#delimiter;
+    const escape = this.#escape;
+    const quote = this.#quote;
+
+    let i = 0;
+    let valueStart = this.#continuation === null;
+    if (this.#continuation !== null) {
+      // the value spans lines
+      this.#value += this.#continuation;
+      this.#continuation = null;
+    }
+
+    for (;;) {
+      if (valueStart && quote && line.startsWith(quote, i)) {
+        // opening quote
+        this.#inQuotes = true;
+        valueStart = false;
+        i += quote.length;
+        continue;
+      }
+
+      valueStart = false;
+
+      // advance until the next delimiter, escape character or closing quote
+      const end = this.#indexOfSpecial(line, i);
+      if (end === -1) {
+        this.#value += line.slice(i);
+
+        // if the quote is not closed, wait for the next line
+        if (this.#inQuotes) {
+          this.#continuation = "\n";
+          return false;
+        }
+
+        this.#pushValue();
+        return true;
+      }
+
+      this.#value += line.slice(i, end);
+      i = end;
+
+      if (escape && line.startsWith(escape, i)) {
+        i += escape.length;
+
+        // escaped line break: wait for the next line
+        if (i === line.length) {
+          this.#continuation = this.#decodeEscapes ? "\n" : escape + "\n";
+          return false;
+        }
+
+        const escaped = matchesAt(delimiter, line, i) ?? line[i];
+        this.#value += this.#decodeEscapes
+          ? DECODED_ESCAPES[escaped] ?? escaped
+          : escape + escaped;
+        i += escaped.length;
+      } else if (this.#inQuotes && quote) {
+        i += quote.length;
+
+        // doubled quote: escaped quote character
+        if (line.startsWith(quote, i)) {
+          this.#value += quote;
+          i += quote.length;
+          continue;
+        }
+
+        // closing quote: any text until the next delimiter is taken verbatim
+        this.#inQuotes = false;
+      } else {
+        // delimiter
+        const matched = matchesAt(delimiter, line, i) ?? "";
+        this.#pushValue();
+        this.#delimiters.push(matched);
+        i += matched.length;
+        valueStart = true;
+      }
+    }
+  }
+
+  /**
+   * Gets the index of the next delimiter, escape character or closing quote, or `-1` if there's none.
+   * Delimiters are ignored inside quoted values, and quotes are ignored outside them.
+   */
+  #indexOfSpecial(line: string, position: number): number {
+    const candidates = [
+      this.#inQuotes && this.#quote
+        ? line.indexOf(this.#quote, position)
+        : this.#indexOfDelimiter(line, position),
+      this.#escape ? line.indexOf(this.#escape, position) : -1,
+    ].filter((x) => x !== -1);
+
+    return candidates.length ? Math.min(...candidates) : -1;
+  }
+
+  /** Gets the index of the next non-empty delimiter match, or `-1` if there's none. */
+  #indexOfDelimiter(line: string, position: number): number {
+    const regex = this.#delimiterSearch;
+    regex.lastIndex = position;
+    for (let match = regex.exec(line); match; match = regex.exec(line)) {
+      if (match[0]) {
+        return match.index;
+      }
+
+      ++regex.lastIndex;
+    }
+
+    return -1;
+  }
+
+  #pushValue(): void {
+    this.#tokens.push(this.#value);
+    this.#value = "";
+  }
+}
+
+/**
+ * Gets the non-empty text that a sticky regular expression matches at a position, or `null` if there's none.
+ */
+function matchesAt(
+  regex: RegExp,
+  text: string,
+  position: number
+): string | null {
+  regex.lastIndex = position;
+  return regex.exec(text)?.[0] || null;
+}
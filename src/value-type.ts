@@ -0,0 +1,77 @@
+/**
+ * The type of a column value:
+ * - `boolean`: `true`, `false`, `yes` or `no` (case-insensitive).
+ * - `date`: An ISO 8601 date or timestamp (e.g. `2023-12-31` or `2023-12-31T23:59:59.999Z`).
+ * - `decimal`: A decimal number (e.g. `-1.5` or `2e10`).
+ * - `email`: An email address.
+ * - `empty`: An empty string.
+ * - `integer`: An integer number (e.g. `-15`).
+ * - `string`: Any other value.
+ * - `uuid`: A UUID (e.g. `123e4567-e89b-12d3-a456-426614174000`).
+ */
+export type ValueType =
+  | "boolean"
+  | "date"
+  | "decimal"
+  | "email"
+  | "empty"
+  | "integer"
+  | "string"
+  | "uuid";
+
+/** The value types in inference order: the first matching type is the inferred type. */
+const VALUE_TYPE_PATTERNS: readonly (readonly [ValueType, RegExp])[] = [
+  ["empty", /^$/],
+  ["integer", /^[+-]?\d+$/],
+  ["decimal", /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/],
+  ["boolean", /^(?:true|false|yes|no)$/i],
+  [
+    "date",
+    /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])(?:[T ](?:[01]\d|2[0-3]):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/,
+  ],
+  ["uuid", /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i],
+  ["email", /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+];
+
+/** The valid {@link ValueType}s. */
+export const VALUE_TYPES: ReadonlySet<ValueType> = new Set<ValueType>([
+  ...VALUE_TYPE_PATTERNS.map(([type]) => type),
+  "string",
+]);
+
+/** Infers the most specific {@link ValueType} of a value. */
+export function inferValueType(value: string): ValueType {
+  return VALUE_TYPE_PATTERNS.find(([, x]) => x.test(value))?.[0] ?? "string";
+}
+
+/**
+ * Gets the most specific {@link ValueType} that all the specified value types match, ignoring `empty` unless it's the
+ * only one. Integers are widened to decimals. Returns `null` if there's no such type other than `string`.
+ */
+export function getCommonValueType(
+  valueTypes: ReadonlySet<ValueType>
+): ValueType | null {
+  const types = new Set(valueTypes);
+  types.delete("empty");
+
+  if (types.size === 2 && types.has("integer") && types.has("decimal")) {
+    return "decimal";
+  }
+
+  if (types.size === 0) {
+    return valueTypes.has("empty") ? "empty" : null;
+  }
+
+  const [type] = types;
+  return types.size === 1 && type !== "string" ? type : null;
+}
+
+/** Whether a value matches a {@link ValueType}. Integers match the `decimal` type. */
+export function matchesValueType(value: string, type: ValueType): boolean {
+  const inferred = inferValueType(value);
+  return (
+    type === "string" ||
+    inferred === type ||
+    (type === "decimal" && inferred === "integer")
+  );
+}
@@ -82,5 +82,23 @@ describe("anchor-column", () => {
         ]);
       });
     });
+
+    describe("unbounded columns with value type", () => {
+      it("returns typed columns as anchors", () => {
+        const columns = [
+          createColumnMetadata({ unbounded: true }),
+          createColumnMetadata({ unbounded: true, valueTypes: ["integer"] }), // { previousColumns: 1 }
+          createColumnMetadata({ unbounded: true, valueTypes: ["string"] }),
+          // { previousColumns: 1 }
+        ];
+
+        const actual = getAnchorColumns(columns);
+
+        expect(actual).toStrictEqual([
+          { previousColumns: 1, metadata: columns[1] },
+          { previousColumns: 1 },
+        ]);
+      });
+    });
   });
 });
@@ -1,8 +1,25 @@
 import { describe, expect, it } from "vitest";
 
-import { Arguments, getHelp, parse } from "../src/args.js";
+import { Arguments, getDefaultArguments, getHelp, parse } from "../src/args.js";
 
 describe("args", () => {
+  describe("getDefaultArguments", () => {
+    it("returns the defaults of parse", () => {
+      const { inputFilePath, outputFilePath, ...expected } = parse([
+        "node",
+        "entry-module",
+        "--input",
+        "input",
+        "--output",
+        "output",
+      ]);
+
+      const actual = getDefaultArguments();
+
+      expect(actual).toEqual(expected);
+    });
+  });
+
   describe("getHelp", () => {
     it("returns help string", () => {
       const actual = getHelp();
@@ -12,28 +29,76 @@ describe("args", () => {
           "--input {filepath} " +
           "--output {filepath} " +
           "[--unprocessed {filepath}] " +
+          "[--review {filepath}] " +
+          "[--unprocessed-format {format}] " +
+          "[--audit {filepath}] " +
           "[--input-metadata {filepath}] " +
+          "[--rebuild-metadata] " +
+          "[--metadata-sample {sample}] " +
+          "[--metadata-workers {number}] " +
+          "[--metadata-iterations {number}] " +
+          "[--rules {filepath}] " +
+          "[--metadata-overrides {filepath}] " +
           "[--input-delimiter {delimiter}] " +
+          "[--delimiter-regex] " +
           "[--output-delimiter {delimiter}] " +
           "[--delimiter-replacement {replacement}] " +
+          "[--newline-replacement {replacement}] " +
+          "[--keep-delimiters] " +
+          "[--quote {character}] " +
+          "[--escape-char {character}] " +
+          "[--decode-escapes] " +
           "[--number-of-columns {number}] " +
+          "[--[no-]header] " +
+          "[--column-names {names}] " +
           "[--number-of-rows {number}] " +
           "[--max-cardinality {number}] " +
+          "[--max-relative-cardinality {percentage}] " +
+          "[--ambiguity-margin {number}] " +
+          "[--enforce-max-length] " +
+          "[--max-merge-lines {number}] " +
+          "[--max-record-lines {number}] " +
           "[--input-encoding {encoding}] " +
-          "[--output-encoding {encoding}]\n\n" +
+          "[--output-encoding {encoding}] " +
+          "[--[no-]output-bom] " +
+          "[--line-ending {ending}]\n\n" +
           "ARGUMENTS\n" +
           "--input: The path to the input file to process.\n" +
           "--output: The path to the output file to produce.\n" +
           '--unprocessed: The path to the file that contains unprocessed lines. Defaults to: "unprocessed.txt"\n' +
-          '--input-metadata: The path to the file that contains metadata about the input file. Defaults to: "input-metadata.json"\n' +
-          '--input-delimiter: The input file column delimiter. Defaults to: "|"\n' +
+          "--review: The path to the file that contains ambiguous lines for review. If omitted, ambiguous lines are written to the unprocessed lines file.\n" +
+          '--unprocessed-format: The format of the unprocessed and review files: "text" for the raw lines, or "jsonl" for JSON Lines with the line number, number of columns, rejection reason and text of each line. Defaults to: "text"\n' +
+          "--audit: The path to a JSON Lines file that describes each repaired row: its line numbers, its original tokens, the tokens merged into each column and the anchor column matches that decided the merges. If omitted, repairs are not recorded.\n" +
+          '--input-metadata: The path to the file that contains metadata about the input file. It fails if the file was built from a different input file or with different arguments. Defaults to: "input-metadata.json"\n' +
+          "--rebuild-metadata: Rebuilds the input metadata file even if it exists.\n" +
+          '--metadata-sample: Builds the input metadata from a sample of the input file lines instead of all of them, in the {strategy}:{size} format. The strategy is "first" for the first lines, "reservoir" for lines chosen uniformly at random, or "stride" for lines at evenly spaced positions of the input file, which doesn\'t read the whole file, e.g. "stride:10000". A sampled input file is only checked for changes by size and modification time. If omitted, all the lines are used.\n' +
+          "--metadata-workers: The number of worker threads that build the input metadata in parallel, each from a range of the input file lines. Ignored if --metadata-sample is specified. Defaults to: 1\n" +
+          "--metadata-iterations: The maximum number of times to build the input metadata. After the first time, it's rebuilt from the rows parsed with the previous input metadata, including the repaired rows, until the anchor columns don't change. Only the first input metadata is written to the input metadata file. Defaults to: 1\n" +
+          '--rules: The path to a JSON file that contains an array of column rules, e.g. [{ "column": "code", "pattern": "^[A-Z]{2}\\\\d{6}$" }]. A column is specified by name or 1-based index, and its values matching the pattern are used as anchors. A rule can also override the --max-cardinality and --max-relative-cardinality of its column, e.g. { "column": "country", "maxCardinality": 300 }.\n' +
+          '--metadata-overrides: The path to a JSON file that contains an array of overrides of the input metadata, which are applied after it is read or built, e.g. [{ "column": "hobbies", "unbounded": true }, { "column": "force_alignment", "addValues": ["Grey"] }]. A column is specified by its original name or 1-based index, and an override can also rename it with "name", remove values with "removeValues", or exclude it from the anchor columns with "anchor": false.\n' +
+          '--input-delimiter: The input file column delimiter, or "auto" to detect it from the start of the input file among: "|", ",", tab, ";" and "^". It can have more than one character, e.g. "~|~". Defaults to: "|"\n' +
+          '--delimiter-regex: Interprets the input file column delimiter as a regular expression, e.g. "\\t+" for one or more tabs.\n' +
           '--output-delimiter: The output file column delimiter. Defaults to: "\t"\n' +
-          '--delimiter-replacement: The value to replace input file delimiters when they\'re used in a string value. Defaults to: " "\n' +
+          "--delimiter-replacement: The value to replace input file delimiters when they're used in a string value, and output delimiters in output values if there's no quote character. Defaults to: \" \"\n" +
+          "--newline-replacement: The value to replace the line breaks in-between the lines of a row that was broken across lines, and the line breaks in output values if there's no quote character. If omitted, the delimiter replacement is used.\n" +
+          "--keep-delimiters: Keeps the input file delimiters when they're used in a string value instead of replacing them. Values that span lines are still joined with the delimiter replacement.\n" +
+          "--quote: The input file quote character. Quoted values may contain delimiters and new lines, and quotes are escaped by doubling them. Output values that contain the output delimiter, quotes or new lines are quoted the same way. If omitted, quotes are not interpreted.\n" +
+          "--escape-char: The input file escape character. Escaped delimiters are never considered column boundaries, and an escape character at the end of a line escapes the line break. If omitted, escape sequences are not interpreted.\n" +
+          "--decode-escapes: Decodes the input file escape sequences, e.g. an escaped delimiter becomes the delimiter and an escaped n becomes a new line. If omitted, escape sequences are kept verbatim.\n" +
           "--number-of-columns: The number of columns per row in the input file. It omitted, it's auto-detected from the first line.\n" +
+          "--header: Indicates whether the first line of the input file is a header, which is written once at the top of the output file instead of being processed. If omitted, it's a header unless --number-of-columns or --column-names are specified.\n" +
+          "--column-names: The comma-separated column names, which are written once at the top of the output file. If omitted, they're taken from the header.\n" +
           "--number-of-rows: The maximum number of rows to write to the output file. If omitted there's no limit.\n" +
           "--max-cardinality: The maximum number of unique values a column can have before it's considered unbounded. Defaults to: 1000\n" +
-          '--input-encoding: The input file encoding. Defaults to: "utf8"\n' +
-          '--output-encoding: The output file encoding. Defaults to: "utf8"'
+          "--max-relative-cardinality: The maximum percentage of unique values relative to the number of rows a column can have before it's considered unbounded, e.g. 5. If omitted, only --max-cardinality is used.\n" +
+          "--ambiguity-margin: The maximum score difference between the two best ways of parsing a line for it to be considered ambiguous, e.g. 0 for ties only. Ambiguous lines are written to the review file, or else to the unprocessed lines file, instead of being guessed. Defaults to: 0\n" +
+          "--enforce-max-length: Never merges columns into a value longer than the longest value of the column in the input metadata. If omitted, such merges are only penalized.\n" +
+          "--max-merge-lines: The maximum number of consecutive lines that can't be parsed on their own to keep for merging into a row. When it's exceeded, the oldest line is written to the unprocessed lines file, so that a long region of lines that never parse doesn't stall the parsing. Defaults to: 100\n" +
+          "--max-record-lines: The maximum number of lines a record can span because of quoted values or escaped line breaks. When it's exceeded, e.g. because a quote is never closed, the record's lines are written to the unprocessed lines file. Only applies if --quote or --escape-char is specified. Defaults to: 100\n" +
+          '--input-encoding: The input file encoding, or "auto" to detect it from the byte order mark, or else as "utf8" if the start of the input file is valid UTF-8 and as "windows-1252" otherwise. A byte order mark at the start of the input file is never processed. Defaults to: "utf8"\n' +
+          '--output-encoding: The output file encoding. Defaults to: "utf8"\n' +
+          "--output-bom: Indicates whether to write a byte order mark at the start of the output files. If omitted, it's written if the input file starts with one and the output encoding is a Unicode encoding.\n" +
+          '--line-ending: The output files line ending: "lf", "crlf", or "preserve" to use the line ending of the first line of the input file. Defaults to: "lf"'
       );
     });
   });
@@ -59,17 +124,25 @@ describe("args", () => {
       });
     });
 
-    ["--number-of-columns", "--number-of-rows", "--max-cardinality"].forEach(
-      (arg) => {
-        describe(`${arg} is not number`, () => {
-          it("throws error", () => {
-            expect(() => parse([...minArgs, arg, "value"])).toThrowError(
-              /must be a number/i
-            );
-          });
+    [
+      "--number-of-columns",
+      "--number-of-rows",
+      "--max-cardinality",
+      "--max-relative-cardinality",
+      "--ambiguity-margin",
+      "--max-merge-lines",
+      "--max-record-lines",
+      "--metadata-workers",
+      "--metadata-iterations",
+    ].forEach((arg) => {
+      describe(`${arg} is not number`, () => {
+        it("throws error", () => {
+          expect(() => parse([...minArgs, arg, "value"])).toThrowError(
+            /must be a number/i
+          );
         });
-      }
-    );
+      });
+    });
 
     describe("unknown argument", () => {
       it("throws error", () => {
@@ -83,25 +156,132 @@ describe("args", () => {
       describe(`${arg} has invalid encoding`, () => {
         it("throws error", () => {
           expect(() => parse([...minArgs, arg, "invalid"])).toThrowError(
-            /invalid encoding/i
+            `Invalid encoding for argument ${arg}.`
+          );
+        });
+      });
+    });
+
+    [
+      { arg: "--line-ending", value: "cr" },
+      { arg: "--unprocessed-format", value: "json" },
+      { arg: "--metadata-sample", value: "random:10" },
+      { arg: "--metadata-sample", value: "first:0" },
+      { arg: "--metadata-sample", value: "first" },
+    ].forEach(({ arg, value }) => {
+      describe(`${arg} is invalid`, () => {
+        it("throws error", () => {
+          expect(() => parse([...minArgs, arg, value])).toThrowError(
+            `Invalid value for ${arg}.`
           );
         });
       });
     });
 
+    describe("--output-encoding is auto", () => {
+      it("throws error", () => {
+        expect(() =>
+          parse([...minArgs, "--output-encoding", "auto"])
+        ).toThrowError(/invalid encoding/i);
+      });
+    });
+
+    [
+      "--max-merge-lines",
+      "--max-record-lines",
+      "--metadata-workers",
+      "--metadata-iterations",
+    ].forEach((arg) => {
+      ["0", "1.5"].forEach((value) => {
+        describe(`${arg} is ${value}`, () => {
+          it("throws error", () => {
+            expect(() => parse([...minArgs, arg, value])).toThrowError(
+              `Invalid value for ${arg}.`
+            );
+          });
+        });
+      });
+    });
+
+    describe("--ambiguity-margin is negative", () => {
+      it("throws error", () => {
+        expect(() => parse([...minArgs, "--ambiguity-margin=-1"])).toThrowError(
+          "Invalid value for --ambiguity-margin."
+        );
+      });
+    });
+
+    ["0", "101"].forEach((value) => {
+      describe(`--max-relative-cardinality is ${value}`, () => {
+        it("throws error", () => {
+          expect(() =>
+            parse([...minArgs, "--max-relative-cardinality", value])
+          ).toThrowError("Invalid value for --max-relative-cardinality.");
+        });
+      });
+    });
+
+    ["--quote", "--escape-char"].forEach((arg) => {
+      describe(`${arg} is not a single character`, () => {
+        it("throws error", () => {
+          expect(() => parse([...minArgs, arg, "''"])).toThrowError(
+            /single character/i
+          );
+        });
+      });
+    });
+
+    ["", ",b", "a,,c", "a,b,a"].forEach((value) => {
+      describe(`--column-names is "${value}"`, () => {
+        it("throws error", () => {
+          expect(() =>
+            parse([...minArgs, "--column-names", value])
+          ).toThrowError(/invalid value for --column-names/i);
+        });
+      });
+    });
+
+    [
+      { argv: [], hasHeader: undefined },
+      { argv: ["--header"], hasHeader: true },
+      { argv: ["--no-header"], hasHeader: false },
+    ].forEach(({ argv, hasHeader }) => {
+      describe(`header arguments: ${argv.join(" ")}`, () => {
+        it(`returns hasHeader: ${hasHeader}`, () => {
+          const actual = parse([...minArgs, ...argv]);
+
+          expect(actual).not.toHaveProperty("header");
+          expect(actual.hasHeader).toBe(hasHeader);
+          expect("hasHeader" in actual).toBe(hasHeader !== undefined);
+        });
+      });
+    });
+
     describe("minimum arguments", () => {
       it("returns arguments with defaults", () => {
         const expected: Arguments = {
           inputFilePath: "input",
           outputFilePath: "output",
           unprocessedFilePath: "unprocessed.txt",
+          unprocessedFormat: "text",
           inputMetadataFilePath: "input-metadata.json",
+          rebuildMetadata: false,
+          metadataWorkers: 1,
+          metadataIterations: 1,
           inputDelimiter: "|",
+          delimiterRegex: false,
           outputDelimiter: "\t",
           delimiterReplacement: " ",
+          keepDelimiters: false,
+          decodeEscapes: false,
           maxCardinality: 1000,
+          ambiguityMargin: 0,
+          enforceMaxLength: false,
+          maxMergeLines: 100,
+          maxRecordLines: 100,
           inputFileEncoding: "utf8",
           outputFileEncoding: "utf8",
+          lineEnding: "lf",
         };
 
         const actual = parse(minArgs);
@@ -116,39 +296,104 @@ describe("args", () => {
           inputFilePath: "input",
           outputFilePath: "output",
           unprocessedFilePath: "unprocessed",
+          reviewFilePath: "review",
+          unprocessedFormat: "jsonl",
+          auditFilePath: "audit",
           inputMetadataFilePath: "input-metadata",
+          rebuildMetadata: true,
+          metadataSample: "stride:10",
+          metadataWorkers: 6,
+          metadataIterations: 7,
+          rulesFilePath: "rules",
+          metadataOverridesFilePath: "overrides",
           inputDelimiter: "input-del",
+          delimiterRegex: true,
           outputDelimiter: "output-del",
           delimiterReplacement: "del-replacement",
+          newlineReplacement: "nl-replacement",
+          keepDelimiters: true,
+          quoteCharacter: "'",
+          escapeCharacter: "\\",
+          decodeEscapes: true,
           numberOfColumns: 1,
+          hasHeader: false,
+          columnNames: "a,b",
           numberOfRows: 2,
           maxCardinality: 3,
-          inputFileEncoding: "latin1",
-          outputFileEncoding: "ucs2",
+          maxRelativeCardinality: 2.5,
+          ambiguityMargin: 4,
+          enforceMaxLength: true,
+          maxMergeLines: 5,
+          maxRecordLines: 6,
+          inputFileEncoding: "auto",
+          outputFileEncoding: "utf-16be",
+          outputBom: true,
+          lineEnding: "crlf",
         };
 
         const actual = parse([
           ...minArgs,
           "--unprocessed",
           "unprocessed",
+          "--review",
+          "review",
+          "--unprocessed-format",
+          "jsonl",
+          "--audit",
+          "audit",
           "--input-metadata",
           "input-metadata",
+          "--rebuild-metadata",
+          "--metadata-sample",
+          "stride:10",
+          "--metadata-workers",
+          "6",
+          "--metadata-iterations",
+          "7",
+          "--rules",
+          "rules",
+          "--metadata-overrides",
+          "overrides",
           "--input-delimiter",
           "input-del",
+          "--delimiter-regex",
           "--output-delimiter",
           "output-del",
           "--delimiter-replacement",
           "del-replacement",
+          "--newline-replacement",
+          "nl-replacement",
+          "--keep-delimiters",
+          "--quote",
+          "'",
+          "--escape-char",
+          "\\",
+          "--decode-escapes",
           "--number-of-columns",
           "1",
+          "--no-header",
+          "--column-names",
+          "a,b",
           "--number-of-rows",
           "2",
           "--max-cardinality",
           "3",
+          "--max-relative-cardinality",
+          "2.5",
+          "--ambiguity-margin",
+          "4",
+          "--enforce-max-length",
+          "--max-merge-lines",
+          "5",
+          "--max-record-lines",
+          "6",
           "--input-encoding",
-          "latin1",
+          "auto",
           "--output-encoding",
-          "ucs2",
+          "utf-16be",
+          "--output-bom",
+          "--line-ending",
+          "crlf",
         ]);
 
         expect(actual).toEqual(expected);
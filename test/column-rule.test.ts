@@ -0,0 +1,136 @@
+import { writeFile } from "node:fs/promises";
+import { afterAll, describe, expect, it } from "vitest";
+
+import {
+  applyColumnRules,
+  getCardinalityThresholds,
+  readColumnRules,
+} from "../src/column-rule.js";
+import { ColumnMetadata } from "../src/file-metadata.js";
+import { tryDeleteFile } from "./utils.js";
+
+describe("column-rule", () => {
+  const rulesFilePath = ".column-rule.test.json";
+
+  afterAll(async () => {
+    await tryDeleteFile(rulesFilePath);
+  });
+
+  describe("readColumnRules", () => {
+    it("returns rules", async () => {
+      const rules = [
+        { column: "code", pattern: "^[A-Z]{2}\\d{6}$" },
+        { column: 7, pattern: "^\\d+$" },
+        { column: "country", maxCardinality: 300 },
+        { column: 2, maxRelativeCardinality: 5 },
+      ];
+      await writeFile(rulesFilePath, JSON.stringify(rules));
+
+      const actual = await readColumnRules(rulesFilePath);
+
+      expect(actual).toStrictEqual(rules);
+    });
+
+    [
+      { rules: {}, error: /field: \(root\)\. expected an array/i },
+      { rules: [null], error: /field: \[0\]\. expected an object/i },
+      { rules: [{ pattern: "" }], error: /field: \[0\]\.column\./i },
+      { rules: [{ column: 0, pattern: "" }], error: /field: \[0\]\.column\./i },
+      {
+        rules: [{ column: 1.5, pattern: "" }],
+        error: /field: \[0\]\.column\./i,
+      },
+      {
+        rules: [{ column: 1 }],
+        error: /rule: \[0\]\. it must have a pattern/i,
+      },
+      {
+        rules: [
+          { column: 1, pattern: "" },
+          { column: 2, pattern: "(" },
+        ],
+        error: /field: \[1\]\.pattern\. expected a valid regular expression/i,
+      },
+      {
+        rules: [{ column: 1, maxCardinality: -1 }],
+        error: /field: \[0\]\.maxCardinality\./i,
+      },
+      {
+        rules: [{ column: 1, maxRelativeCardinality: 101 }],
+        error: /field: \[0\]\.maxRelativeCardinality\./i,
+      },
+      {
+        rules: [{ column: 1, pattern: "", other: 1 }],
+        error: /unknown field: \[0\]\.other/i,
+      },
+    ].forEach(({ rules, error }) => {
+      describe(`rules: ${JSON.stringify(rules)}`, () => {
+        it("throws error", async () => {
+          await writeFile(rulesFilePath, JSON.stringify(rules));
+
+          await expect(readColumnRules(rulesFilePath)).rejects.toThrowError(
+            error
+          );
+        });
+      });
+    });
+  });
+
+  describe("applyColumnRules", () => {
+    it("sets patterns by column name and index", () => {
+      const columns = [
+        new ColumnMetadata("first"),
+        new ColumnMetadata("second"),
+      ];
+
+      applyColumnRules(columns, [
+        { column: "second", pattern: "^b$" },
+        { column: 1, pattern: "^a$" },
+      ]);
+
+      expect(columns[0].pattern).toStrictEqual(/^a$/);
+      expect(columns[1].pattern).toStrictEqual(/^b$/);
+    });
+
+    [3, "third"].forEach((column) => {
+      describe(`unknown column: ${column}`, () => {
+        it("throws error", () => {
+          const columns = [new ColumnMetadata("first")];
+
+          expect(() =>
+            applyColumnRules(columns, [{ column, pattern: "" }])
+          ).toThrowError(/unknown column/i);
+        });
+      });
+    });
+
+    it("ignores rules without a pattern", () => {
+      const columns = [new ColumnMetadata("first")];
+
+      applyColumnRules(columns, [{ column: 1, maxCardinality: 3 }]);
+
+      expect(columns[0].pattern).toBeNull();
+    });
+  });
+
+  describe("getCardinalityThresholds", () => {
+    it("overrides the default threshold by column name and index", () => {
+      const actual = getCardinalityThresholds(
+        ["first", "second", "third"],
+        [
+          { column: "second", maxCardinality: 3 },
+          { column: 2, maxRelativeCardinality: 5 },
+          { column: 4, maxCardinality: 1 },
+          { column: "third", pattern: "^c$" },
+        ],
+        { maxCardinality: 10, maxRelativeCardinality: null }
+      );
+
+      expect(actual).toStrictEqual([
+        { maxCardinality: 10, maxRelativeCardinality: null },
+        { maxCardinality: 3, maxRelativeCardinality: 5 },
+        { maxCardinality: 10, maxRelativeCardinality: null },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { sniffDelimiter } from "../src/delimiter-sniffer.js";
+import {
+  AMBIGUOUS_DELIMITER,
+  COMMA_SEPARATED_STAR_WARS_CHARACTERS,
+  STAR_WARS_CHARACTERS,
+  THREE_LINES,
+} from "./test-files/index.js";
+
+describe("delimiter-sniffer", () => {
+  describe("sniffDelimiter", () => {
+    describe("consistent delimiter", () => {
+      it("returns delimiter with full confidence", async () => {
+        const actual = await sniffDelimiter({ filePath: STAR_WARS_CHARACTERS });
+
+        expect(actual.delimiter).toBe("|");
+        expect(actual.confidence).toBe(1);
+        expect(actual.candidates[0]).toStrictEqual({
+          delimiter: "|",
+          columns: 2,
+          score: 1,
+        });
+      });
+    });
+
+    describe("quoted values", () => {
+      [
+        { quote: undefined, confidence: 0.63 },
+        { quote: '"', confidence: 1 },
+      ].forEach(({ confidence, quote }) => {
+        describe(`quote: ${quote}`, () => {
+          it(`returns delimiter with confidence ${confidence}`, async () => {
+            const actual = await sniffDelimiter({
+              filePath: COMMA_SEPARATED_STAR_WARS_CHARACTERS,
+              quote,
+            });
+
+            expect(actual.delimiter).toBe(",");
+            expect(actual.confidence).toBeCloseTo(confidence);
+          });
+        });
+      });
+    });
+
+    describe("equally plausible candidates", () => {
+      it("throws error", async () => {
+        await expect(
+          sniffDelimiter({ filePath: AMBIGUOUS_DELIMITER })
+        ).rejects.toThrowError(/equally plausible: "\|".+, ","/i);
+      });
+    });
+
+    describe("no delimiter", () => {
+      it("throws error", async () => {
+        await expect(
+          sniffDelimiter({ filePath: THREE_LINES })
+        ).rejects.toThrowError(/none of the candidates/i);
+      });
+    });
+
+    describe("sample size", () => {
+      it("only samples the start of the file", async () => {
+        const actual = await sniffDelimiter({
+          filePath: COMMA_SEPARATED_STAR_WARS_CHARACTERS,
+          sampleSize: 2,
+        });
+
+        expect(actual.confidence).toBe(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { basename } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import {
+  FileEncoding,
+  createDecoder,
+  decodeText,
+  detectEncoding,
+  encodeText,
+  isUnicodeEncoding,
+  readBom,
+} from "../src/encoding.js";
+import {
+  BOM_STAR_WARS_CHARACTERS,
+  LATIN_1,
+  STAR_WARS_CHARACTERS,
+  UTF_16BE_BOM,
+  WINDOWS_1252,
+} from "./test-files/index.js";
+
+describe("encoding", () => {
+  describe("detectEncoding", () => {
+    [
+      { filePath: BOM_STAR_WARS_CHARACTERS, encoding: "utf8", bom: true },
+      { filePath: UTF_16BE_BOM, encoding: "utf-16be", bom: true },
+      { filePath: STAR_WARS_CHARACTERS, encoding: "utf8", bom: false },
+      { filePath: LATIN_1, encoding: "windows-1252", bom: false },
+      { filePath: WINDOWS_1252, encoding: "windows-1252", bom: false },
+    ].forEach(({ filePath, encoding, bom }) => {
+      describe(`file: ${basename(filePath)}`, () => {
+        it(`returns ${encoding}`, async () => {
+          const actual = await detectEncoding({ filePath });
+
+          expect(actual).toStrictEqual({ encoding, bom });
+        });
+      });
+    });
+
+    describe("sample ends in the middle of a character", () => {
+      it("returns utf8", async () => {
+        // "Espa" followed by the first byte of "ñ"
+        const actual = await detectEncoding({
+          filePath: LATIN_1,
+          sampleSize: 12,
+        });
+
+        expect(actual).toStrictEqual({ encoding: "utf8", bom: false });
+      });
+    });
+  });
+
+  describe("readBom", () => {
+    [
+      { filePath: BOM_STAR_WARS_CHARACTERS, expected: "utf8" },
+      { filePath: UTF_16BE_BOM, expected: "utf-16be" },
+      { filePath: STAR_WARS_CHARACTERS, expected: undefined },
+    ].forEach(({ filePath, expected }) => {
+      describe(`file: ${basename(filePath)}`, () => {
+        it(`returns ${expected}`, async () => {
+          expect(await readBom(filePath)).toBe(expected);
+        });
+      });
+    });
+  });
+
+  describe("isUnicodeEncoding", () => {
+    [
+      { encoding: "utf8", expected: true },
+      { encoding: "utf16le", expected: true },
+      { encoding: "utf-16be", expected: true },
+      { encoding: "latin1", expected: false },
+      { encoding: "windows-1252", expected: false },
+    ].forEach(({ encoding, expected }) => {
+      it(`returns ${expected} for ${encoding}`, () => {
+        expect(isUnicodeEncoding(encoding as FileEncoding)).toBe(expected);
+      });
+    });
+  });
+
+  describe("createDecoder", () => {
+    describe("windows-1252", () => {
+      it("decodes characters that latin1 doesn't have", () => {
+        const decode = createDecoder("windows-1252");
+
+        expect(decode(Uint8Array.of(0x80, 0x93, 0x81, 0xe9))).toBe("€“\x81é");
+      });
+    });
+
+    describe("utf-16be", () => {
+      it("decodes characters split between chunks", () => {
+        const decode = createDecoder("utf-16be");
+
+        expect(decode(Uint8Array.of(0x00, 0xf1, 0x00))).toBe("ñ");
+        expect(decode(Uint8Array.of(0x41))).toBe("A");
+        expect(decode()).toBe("");
+      });
+    });
+  });
+
+  describe("decodeText", () => {
+    [
+      { encoding: "utf8", bytes: [0xe2, 0x82, 0xac, 0x31] },
+      { encoding: "utf-16be", bytes: [0x20, 0xac, 0x00, 0x31] },
+      { encoding: "windows-1252", bytes: [0x80, 0x31] },
+    ].forEach(({ encoding, bytes }) => {
+      it(`decodes text in ${encoding}`, () => {
+        const actual = decodeText(Buffer.from(bytes), encoding as FileEncoding);
+
+        expect(actual).toBe("€1");
+      });
+    });
+  });
+
+  describe("encodeText", () => {
+    [
+      { encoding: "utf8", expected: [0xe2, 0x82, 0xac, 0x31] },
+      { encoding: "utf-16be", expected: [0x20, 0xac, 0x00, 0x31] },
+      { encoding: "windows-1252", expected: [0x80, 0x31] },
+      { encoding: "iso-8859-15", expected: [0xa4, 0x31] },
+    ].forEach(({ encoding, expected }) => {
+      it(`encodes text in ${encoding}`, () => {
+        const actual = encodeText("€1", encoding as FileEncoding);
+
+        expect([...actual]).toStrictEqual(expected);
+      });
+    });
+
+    describe("character that the encoding can't represent", () => {
+      it("replaces it with ?", () => {
+        const actual = encodeText("a←b", "windows-1252");
+
+        expect(actual.toString("latin1")).toBe("a?b");
+      });
+    });
+  });
+});
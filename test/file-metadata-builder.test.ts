@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  FileMetadataBuilder,
+  FileMetadataBuilderOptions,
+} from "../src/file-metadata-builder.js";
+
+describe("file-metadata-builder", () => {
+  describe("FileMetadataBuilder", () => {
+    const options: FileMetadataBuilderOptions = {
+      delimiter: "|",
+      maxCardinality: 2,
+    };
+
+    describe("constructor", () => {
+      describe("mismatched column count", () => {
+        it("throws error", () => {
+          expect(
+            () =>
+              new FileMetadataBuilder({
+                ...options,
+                columnNames: ["a", "b"],
+                numberOfColumns: 3,
+              })
+          ).toThrowError(/number of column names \(2\)/i);
+        });
+      });
+    });
+
+    describe("add", () => {
+      it("processes lines after the header", () => {
+        const builder = new FileMetadataBuilder(options)
+          .add("name|force_alignment")
+          .add("Darth Vader|Dark")
+          .add("Luke Skywalker|Light")
+          .add("Han|Solo|Light");
+
+        const actual = builder.build();
+
+        expect(actual.columns.map((x) => x.toJSON())).toMatchObject([
+          { name: "name", count: 2, unbounded: false },
+          { name: "force_alignment", count: 2, unbounded: false },
+        ]);
+      });
+
+      describe("quote not closed within max record lines", () => {
+        it("skips the record", () => {
+          const builder = new FileMetadataBuilder({
+            ...options,
+            maxRecordLines: 2,
+            quote: '"',
+          })
+            .add("name|force_alignment")
+            .add('"Darth Vader|Dark')
+            .add("Luke Skywalker|Light")
+            .add("Han Solo|Light");
+
+          const actual = builder.build();
+
+          expect(actual.columns.map((x) => x.toJSON())).toMatchObject([
+            { name: "name", count: 1, uniqueValues: ["Han Solo"] },
+            { name: "force_alignment", count: 1, uniqueValues: ["Light"] },
+          ]);
+        });
+      });
+
+      describe("header with number of columns", () => {
+        it("throws error if the header doesn't match", () => {
+          const builder = new FileMetadataBuilder({
+            ...options,
+            header: true,
+            numberOfColumns: 3,
+          });
+
+          expect(() => builder.add("a|b")).toThrowError(
+            /number of header columns \(2\)/i
+          );
+        });
+      });
+    });
+
+    describe("addRow", () => {
+      it("processes the values without tokenizing them", () => {
+        const actual = new FileMetadataBuilder({
+          ...options,
+          columnNames: ["name", "force_alignment"],
+        })
+          .addRow(["Darth|Sidious", "Dark"])
+          .addRow(["Han Solo", "Light", "Extra"])
+          .build();
+
+        expect(actual.columns.map((x) => x.toJSON())).toMatchObject([
+          { name: "name", count: 1, maxLength: 13 },
+          { name: "force_alignment", count: 1 },
+        ]);
+      });
+    });
+
+    describe("columnNames", () => {
+      it("returns the column names once they're known", () => {
+        const builder = new FileMetadataBuilder(options);
+        const before = builder.columnNames;
+        builder.add("name|force_alignment");
+
+        expect(before).toBeUndefined();
+        expect(builder.columnNames).toStrictEqual(["name", "force_alignment"]);
+      });
+    });
+
+    describe("fromAsyncIterable", () => {
+      it("processes each line", async () => {
+        async function* lines() {
+          yield "name|force_alignment";
+          yield "Darth Vader|Dark";
+        }
+
+        const builder = await FileMetadataBuilder.fromAsyncIterable(
+          lines(),
+          options
+        );
+
+        expect(builder.build().columns.map((x) => x.name)).toStrictEqual([
+          "name",
+          "force_alignment",
+        ]);
+      });
+    });
+
+    describe("build", () => {
+      describe("no lines", () => {
+        it("names columns after the number of columns", () => {
+          const actual = new FileMetadataBuilder({
+            ...options,
+            header: false,
+            numberOfColumns: 2,
+          }).build();
+
+          expect(actual.columns.map((x) => x.name)).toStrictEqual([
+            "col_1",
+            "col_2",
+          ]);
+        });
+      });
+
+      describe("with rules", () => {
+        it("overrides the cardinality thresholds of the columns", () => {
+          const actual = new FileMetadataBuilder({
+            ...options,
+            rules: [
+              { column: "name", maxCardinality: 5 },
+              { column: 2, maxRelativeCardinality: 50 },
+            ],
+          })
+            .add("name|side")
+            .add("Darth Vader|Dark")
+            .add("Luke Skywalker|Light")
+            .add("Obi Wan Kenobi|Light")
+            .build();
+
+          expect(actual.columns.map((x) => x.toJSON())).toMatchObject([
+            { name: "name", cardinality: 3, maxCardinality: 5 },
+            {
+              name: "side",
+              cardinality: null,
+              maxCardinality: 2,
+              maxRelativeCardinality: 50,
+            },
+          ]);
+        });
+      });
+
+      describe("more lines after build", () => {
+        it("doesn't change the built metadata", () => {
+          const builder = new FileMetadataBuilder(options).add("a|b");
+          const actual = builder.build();
+          builder.add("c|d");
+
+          expect(actual.columns[0].count).toBe(0);
+          expect(builder.build().columns[0].count).toBe(1);
+        });
+      });
+    });
+
+    describe("merge", () => {
+      it("returns the same metadata as a single builder", () => {
+        const lines = [
+          "name|force_alignment",
+          "Darth Vader|Dark",
+          "Luke Skywalker|Light",
+          "Obi Wan Kenobi|Light",
+        ];
+        const expected = new FileMetadataBuilder(options);
+        lines.forEach((x) => expected.add(x));
+        const first = new FileMetadataBuilder(options);
+        lines.slice(0, 2).forEach((x) => first.add(x));
+        const second = new FileMetadataBuilder({
+          ...options,
+          columnNames: ["a", "b"],
+        });
+        lines.slice(2).forEach((x) => second.add(x));
+
+        const actual = first.merge(second).build();
+
+        expect(JSON.stringify(actual)).toBe(JSON.stringify(expected.build()));
+      });
+
+      describe("builder without columns", () => {
+        it("takes the column names of the other builder", () => {
+          const builder = new FileMetadataBuilder(options);
+          const other = new FileMetadataBuilder(options).add("a|b");
+
+          const actual = builder.merge(other).build();
+
+          expect(actual.columns.map((x) => x.name)).toStrictEqual(["a", "b"]);
+        });
+      });
+
+      describe("different number of columns", () => {
+        it("throws error", () => {
+          const builder = new FileMetadataBuilder(options).add("a|b");
+          const other = new FileMetadataBuilder(options).add("a|b|c");
+
+          expect(() => builder.merge(other)).toThrowError(
+            /can't merge the metadata of 3 columns/i
+          );
+        });
+      });
+    });
+  });
+});
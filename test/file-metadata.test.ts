@@ -1,22 +1,30 @@
+import { copyFile, utimes, writeFile } from "node:fs/promises";
 import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
   ColumnMetadata,
   CreateInput,
   FileMetadata,
+  createHeaderSkipper,
 } from "../src/file-metadata.js";
 import * as fileUtils from "../src/file-utils.js";
-import { STAR_WARS_CHARACTERS } from "./test-files/index.js";
+import {
+  QUOTED_STAR_WARS_CHARACTERS,
+  STAR_WARS_CHARACTERS,
+} from "./test-files/index.js";
 import { tryDeleteFile } from "./utils.js";
 
 vi.mock("../src/file-utils.js");
+const getFileHashMock = vi.mocked(fileUtils.getFileHash);
 const getFileLinesMock = vi.mocked(fileUtils.getFileLines);
 
 describe("file-metadata", () => {
   const cacheFilePath = ".file-metadata.test.json";
+  const inputFilePath = ".file-metadata.test.txt";
 
   afterAll(async () => {
     await tryDeleteFile(cacheFilePath);
+    await tryDeleteFile(inputFilePath);
   });
 
   describe("ColumnMetadata", () => {
@@ -67,6 +75,64 @@ describe("file-metadata", () => {
           });
         });
       });
+
+      ["characterClasses", "count", "lengths", "pattern", "valueTypes"].forEach(
+        (field) => {
+          describe(`invalid type on optional '${field}' field`, () => {
+            it("throws error", () => {
+              const obj: Record<string, unknown> = { ...validObj };
+              obj[field] = ["other"];
+              expect(() => ColumnMetadata.fromJson(obj)).toThrowError(
+                new RegExp(`missing.+${field}`, "i")
+              );
+            });
+          });
+        }
+      );
+
+      describe("unknown field", () => {
+        it("throws error", () => {
+          const obj = { ...validObj, other: 1 };
+          expect(() => ColumnMetadata.fromJson(obj)).toThrowError(
+            /unknown field: other/i
+          );
+        });
+      });
+
+      [
+        { unbounded: false, cardinality: 3, expected: /expected 2/i },
+        { unbounded: true, cardinality: 2, expected: /expected null/i },
+      ].forEach(({ cardinality, expected, unbounded }) => {
+        describe(`inconsistent cardinality (unbounded: ${unbounded})`, () => {
+          it("throws error", () => {
+            const obj = {
+              ...validObj,
+              cardinality,
+              unbounded,
+              uniqueValues: unbounded ? [] : validObj.uniqueValues,
+            };
+            expect(() => ColumnMetadata.fromJson(obj)).toThrowError(expected);
+          });
+        });
+      });
+
+      describe("with path", () => {
+        it("throws error with JSON path and expected type", () => {
+          const obj = { ...validObj, uniqueValues: ["value1", 5] };
+          expect(() => ColumnMetadata.fromJson(obj, "columns[3]")).toThrowError(
+            "Missing or invalid type for field: columns[3].uniqueValues[1]. Expected a string, but got number 5."
+          );
+        });
+      });
+
+      describe("invalid length count", () => {
+        it("throws error", () => {
+          const obj = { ...validObj, lengths: { 6: 0 } };
+          expect(() => ColumnMetadata.fromJson(obj)).toThrowError(
+            /missing.+lengths/i
+          );
+        });
+      });
     });
 
     describe("toJSON", () => {
@@ -82,15 +148,185 @@ describe("file-metadata", () => {
 
         const expected = JSON.stringify({
           cardinality: 2,
+          characterClasses: ["letter", "digit"],
+          count: 3,
+          lengths: { 6: 3 },
+          maxCardinality: 2,
           maxLength: 6,
           name: "col",
+          p50Length: 6,
+          p99Length: 6,
           unbounded: false,
           uniqueValues: ["value1", "value2"],
+          valueTypes: ["string"],
         });
         expect(actual).toStrictEqual(expected);
       });
     });
 
+    describe("lengths", () => {
+      const col = new ColumnMetadata("col");
+      ["a", "bb", "bb", "ccc", "dddddddddd"].forEach((x) => col.add(x, 1));
+
+      it("computes length distribution", () => {
+        expect(col.lengths).toStrictEqual(
+          new Map([
+            [1, 1],
+            [2, 2],
+            [3, 1],
+            [10, 1],
+          ])
+        );
+        expect(col.p50Length).toBe(2);
+        expect(col.p99Length).toBe(10);
+        expect(col.getLengthPercentile(80)).toBe(3);
+      });
+
+      it("round-trips through JSON", () => {
+        const actual = ColumnMetadata.fromJson(JSON.parse(JSON.stringify(col)));
+
+        expect(actual.lengths).toStrictEqual(col.lengths);
+      });
+
+      describe("no processed values", () => {
+        it("has no percentiles", () => {
+          const col = new ColumnMetadata("col");
+
+          expect(col.p50Length).toBeNull();
+          expect(col.p99Length).toBeNull();
+        });
+      });
+    });
+
+    describe("valueType", () => {
+      [
+        { values: ["1", "-2", ""], valueType: "integer" },
+        { values: ["1", "2.5"], valueType: "decimal" },
+        { values: ["2023-12-31", "2023-12-31T23:59:59Z"], valueType: "date" },
+        { values: ["", ""], valueType: "empty" },
+        { values: ["1", "true"], valueType: null },
+        { values: ["1", "one"], valueType: null },
+      ].forEach(({ values, valueType }) => {
+        describe(`values: ${values.join(", ")}`, () => {
+          it(`returns ${valueType}`, () => {
+            const col = new ColumnMetadata("col");
+            values.forEach((x) => col.add(x, 1));
+
+            expect(col.valueType).toBe(valueType);
+            expect(col.isAnchor).toBe(valueType !== null);
+          });
+        });
+      });
+    });
+
+    describe("matches", () => {
+      describe("bounded column", () => {
+        it("matches unique values", () => {
+          const col = new ColumnMetadata("col");
+          col.add("1", 2).add("2", 2);
+
+          expect(col.matches("1")).toBe(true);
+          expect(col.matches("3")).toBe(false);
+        });
+      });
+
+      describe("unbounded column with value type", () => {
+        it("matches values of the same type", () => {
+          const col = new ColumnMetadata("col");
+          col.add("1", 1).add("2", 1).add("", 1);
+
+          expect(col.unbounded).toBe(true);
+          expect(col.matches("3")).toBe(true);
+          expect(col.matches("")).toBe(true);
+          expect(col.matches("3.5")).toBe(false);
+        });
+      });
+
+      describe("unbounded column without value type", () => {
+        it("matches no values", () => {
+          const col = new ColumnMetadata("col");
+          col.add("1", 1).add("one", 1);
+
+          expect(col.matches("1")).toBe(false);
+          expect(col.matches("one")).toBe(false);
+        });
+      });
+    });
+
+    describe("pattern", () => {
+      it("round-trips through JSON", () => {
+        const col = new ColumnMetadata("col").setPattern(/^[A-Z]{2}\d{6}$/);
+
+        const actual = ColumnMetadata.fromJson(JSON.parse(JSON.stringify(col)));
+
+        expect(actual.pattern).toStrictEqual(/^[A-Z]{2}\d{6}$/);
+      });
+
+      describe("invalid regular expression", () => {
+        it("throws error", () => {
+          expect(() =>
+            ColumnMetadata.fromJson({
+              maxLength: 0,
+              name: "col",
+              pattern: "(",
+              unbounded: true,
+              uniqueValues: [],
+            })
+          ).toThrowError(/missing.+pattern/i);
+        });
+      });
+
+      it("makes column an anchor that matches the pattern", () => {
+        const col = new ColumnMetadata("col");
+        col
+          .add("AB123456", 1)
+          .add("CD654321", 1)
+          .setPattern(/^[A-Z]{2}\d{6}$/);
+
+        expect(col.unbounded).toBe(true);
+        expect(col.isAnchor).toBe(true);
+        expect(col.matches("EF000000")).toBe(true);
+        expect(col.matches("other")).toBe(false);
+        expect(col.score("other")).toBeLessThan(col.score("EF000000"));
+      });
+    });
+
+    describe("score", () => {
+      const col = new ColumnMetadata("col");
+      col.add("Luke", 10).add("Leia", 10);
+
+      [
+        { value: "Han", score: 0 },
+        { value: "Chewie", score: -1.5 },
+        { value: "R2", score: -1 },
+        { value: "Obi Wan", score: -2.75 },
+        { value: "", score: 0 },
+      ].forEach(({ value, score }) => {
+        describe(`value: ${value}`, () => {
+          it("returns score", () => {
+            expect(col.score(value)).toBe(score);
+          });
+        });
+      });
+
+      describe("length distribution", () => {
+        it("prefers typical lengths", () => {
+          const col = new ColumnMetadata("col");
+          ["a b", "c d", "e f", "g h i j"].forEach((x) => col.add(x, 1));
+
+          expect(col.score("k l")).toBe(0);
+          expect(col.score("k l m")).toBe(-0.75);
+          expect(col.score("k l m n")).toBe(-0.75);
+        });
+      });
+
+      describe("no processed values", () => {
+        it("returns 0", () => {
+          expect(new ColumnMetadata("col").score("value")).toBe(0);
+        });
+      });
+    });
+
     describe("exceed max cardinality", () => {
       it("clears unique values, set to unbounded", () => {
         const maxCardinality = 3;
@@ -106,14 +342,176 @@ describe("file-metadata", () => {
         expect(col.uniqueValues.size).toBe(0);
       });
     });
+
+    describe("exceed max relative cardinality", () => {
+      const createColumn = (values: readonly string[]) => {
+        const col = new ColumnMetadata("col").setCardinalityThreshold({
+          maxCardinality: 10,
+          maxRelativeCardinality: 50,
+        });
+        values.forEach((x) => col.add(x, 10));
+        return col;
+      };
+
+      it("is unbounded while there are too many unique values per value", () => {
+        const col = createColumn(["1", "2", "1"]);
+
+        expect(col.cardinality).toBeNull();
+        expect(col.unbounded).toBe(true);
+        expect(col.uniqueValues.size).toBe(0);
+      });
+
+      it("is bounded once there are enough values", () => {
+        const col = createColumn(["1", "2", "1", "2"]);
+
+        expect(col.cardinality).toBe(2);
+        expect(col.unbounded).toBe(false);
+        expect(col.uniqueValues).toStrictEqual(new Set(["1", "2"]));
+      });
+
+      it("applies to merged values", () => {
+        const col = createColumn(["1", "2", "3"]);
+
+        const actual = col.merge(createColumn(["1", "2", "3"]), 10);
+
+        expect(actual.unbounded).toBe(false);
+        expect(actual.maxRelativeCardinality).toBe(50);
+      });
+
+      it("round-trips through JSON", () => {
+        const col = createColumn(["1", "2", "1", "2"]);
+
+        const actual = ColumnMetadata.fromJson(JSON.parse(JSON.stringify(col)));
+
+        expect(actual.maxCardinality).toBe(10);
+        expect(actual.maxRelativeCardinality).toBe(50);
+        expect(actual.toJSON()).toStrictEqual(col.toJSON());
+      });
+
+      it("keeps the unique values of an unbounded column through JSON", () => {
+        const col = createColumn(["1", "2", "1"]);
+
+        const actual = ColumnMetadata.fromJson(JSON.parse(JSON.stringify(col)));
+
+        expect(actual.unbounded).toBe(true);
+        expect(actual.cardinality).toBeNull();
+        expect(actual.setUnbounded(false).uniqueValues).toStrictEqual(
+          col.setUnbounded(false).uniqueValues
+        );
+        expect(actual.uniqueValues).toStrictEqual(new Set(["1", "2"]));
+      });
+    });
+
+    describe("setUnbounded", () => {
+      it("forces the column to be bounded or unbounded", () => {
+        const col = new ColumnMetadata("col")
+          .setCardinalityThreshold({
+            maxCardinality: 10,
+            maxRelativeCardinality: 50,
+          })
+          .add("1", 10)
+          .add("2", 10);
+
+        expect(col.setUnbounded(false).uniqueValues).toStrictEqual(
+          new Set(["1", "2"])
+        );
+        expect(col.maxRelativeCardinality).toBeNull();
+        expect(col.setUnbounded(true).uniqueValues.size).toBe(0);
+        expect(col.setUnbounded(false).uniqueValues.size).toBe(0);
+      });
+    });
+
+    describe("setAnchor", () => {
+      it("excludes a bounded column from the anchor columns", () => {
+        const col = new ColumnMetadata("col").add("a", 3).setAnchor(false);
+
+        expect(col.isAnchor).toBe(false);
+        expect(ColumnMetadata.fromJson(col.toJSON()).isAnchor).toBe(false);
+      });
+    });
+
+    describe("copy", () => {
+      it("copies the column with another name", () => {
+        const col = new ColumnMetadata("col")
+          .add("a", 3)
+          .setPattern(/a/)
+          .setAnchor(false);
+
+        const actual = col.copy("other");
+        actual.add("b", 3);
+
+        expect(actual.toJSON()).toStrictEqual(
+          new ColumnMetadata("other")
+            .add("a", 3)
+            .add("b", 3)
+            .setPattern(/a/)
+            .setAnchor(false)
+            .toJSON()
+        );
+        expect(col.count).toBe(1);
+      });
+    });
+
+    describe("merge", () => {
+      it("merges statistics", () => {
+        const col = new ColumnMetadata("col").add("a", 3).add("bb", 3);
+        const other = new ColumnMetadata("other").add("1", 3).add("a", 3);
+
+        const actual = col.merge(other, 3);
+
+        expect(actual.toJSON()).toStrictEqual(
+          new ColumnMetadata("col")
+            .add("a", 3)
+            .add("bb", 3)
+            .add("1", 3)
+            .add("a", 3)
+            .toJSON()
+        );
+        expect(other.count).toBe(2);
+      });
+
+      [
+        { description: "too many unique values together", other: ["3", "4"] },
+        { description: "other column unbounded", other: ["1", "2", "3", "4"] },
+      ].forEach(({ description, other }) => {
+        describe(description, () => {
+          it("sets to unbounded", () => {
+            const maxCardinality = 3;
+            const col = new ColumnMetadata("col")
+              .add("1", maxCardinality)
+              .add("2", maxCardinality);
+            const otherCol = new ColumnMetadata("other");
+            other.forEach((x) => otherCol.add(x, maxCardinality));
+
+            const actual = col.merge(otherCol, maxCardinality);
+
+            expect(actual.unbounded).toBe(true);
+            expect(actual.uniqueValues.size).toBe(0);
+          });
+        });
+      });
+
+      describe("pattern", () => {
+        it("keeps own pattern", () => {
+          const col = new ColumnMetadata("col").setPattern(/a/);
+          const other = new ColumnMetadata("other").setPattern(/b/);
+
+          expect(col.merge(other, 3).pattern).toStrictEqual(/a/);
+          expect(new ColumnMetadata("col").merge(other, 3).pattern).toBe(
+            other.pattern
+          );
+        });
+      });
+    });
   });
 
   describe("FileMetadata", () => {
     describe("create", () => {
       beforeEach(async () => {
-        const { getFileLines } = (await vi.importActual(
+        const { getFileHash, getFileLines } = (await vi.importActual(
           "../src/file-utils.js"
         )) as typeof fileUtils;
+        getFileHashMock.mockImplementation(getFileHash);
         getFileLinesMock.mockImplementation(getFileLines);
       });
 
@@ -168,6 +566,122 @@ describe("file-metadata", () => {
         });
       });
 
+      describe("header options", () => {
+        [
+          {
+            description: "header with number of columns",
+            input: { header: true, numberOfColumns: 2 },
+            names: ["name", "force_alignment"],
+            uniqueValues: ["Dark", "Light"],
+          },
+          {
+            description: "no header",
+            input: { header: false },
+            names: ["col_1", "col_2"],
+            uniqueValues: ["force_alignment", "Dark", "Light"],
+          },
+          {
+            description: "column names",
+            input: { columnNames: ["a", "b"] },
+            names: ["a", "b"],
+            uniqueValues: ["force_alignment", "Dark", "Light"],
+          },
+          {
+            description: "header with column names",
+            input: { columnNames: ["a", "b"], header: true },
+            names: ["a", "b"],
+            uniqueValues: ["Dark", "Light"],
+          },
+        ].forEach(({ description, input, names, uniqueValues }) => {
+          describe(description, () => {
+            it("names columns and keeps header out of statistics", async () => {
+              const actual = await FileMetadata.create({
+                ...input,
+                delimiter: "|",
+                filePath: STAR_WARS_CHARACTERS,
+                maxCardinality: 3,
+              });
+
+              expect(actual.columns.map((x) => x.name)).toStrictEqual(names);
+              expect(actual.columns[1].uniqueValues).toStrictEqual(
+                new Set(uniqueValues)
+              );
+            });
+          });
+        });
+
+        [
+          {
+            input: { columnNames: ["a"], numberOfColumns: 2 },
+            message: /number of column names \(1\).+number of columns \(2\)/i,
+          },
+          {
+            input: { header: true, numberOfColumns: 3 },
+            message: /number of header columns \(2\).+number of columns \(3\)/i,
+          },
+        ].forEach(({ input, message }) => {
+          describe(`mismatched column count: ${JSON.stringify(input)}`, () => {
+            it("throws error", async () => {
+              await expect(
+                FileMetadata.create({
+                  ...input,
+                  delimiter: "|",
+                  filePath: STAR_WARS_CHARACTERS,
+                  maxCardinality: 3,
+                })
+              ).rejects.toThrowError(message);
+            });
+          });
+        });
+      });
+
+      describe("with quote", () => {
+        it("does not split quoted values", async () => {
+          const actual = await FileMetadata.create({
+            delimiter: "|",
+            filePath: QUOTED_STAR_WARS_CHARACTERS,
+            maxCardinality: 2,
+            quote: '"',
+          });
+
+          expect(actual.columns.length).toBe(2);
+          const [nameCol, forceAlignCol] = actual.columns;
+          expect(nameCol.maxLength).toBe(14);
+          expect(nameCol.unbounded).toBe(true);
+          expect(forceAlignCol.unbounded).toBe(false);
+          expect(forceAlignCol.uniqueValues).toStrictEqual(
+            new Set(["Light", "Dark"])
+          );
+        });
+      });
+
+      describe("with rules", () => {
+        beforeEach(async () => {
+          await tryDeleteFile(cacheFilePath);
+        });
+
+        it("applies rules to created and cached metadata", async () => {
+          const input: CreateInput = {
+            delimiter: "|",
+            filePath: STAR_WARS_CHARACTERS,
+            maxCardinality: 2,
+            metadataFilePath: cacheFilePath,
+          };
+          await FileMetadata.create(input);
+
+          const actual = await FileMetadata.create({
+            ...input,
+            rules: [{ column: "name", pattern: "^\\w+ \\w+" }],
+          });
+          const cached = await FileMetadata.create(input);
+
+          expect(actual.columns[0].pattern).toStrictEqual(/^\w+ \w+/);
+          expect(actual.anchorColumns.length).toBe(2);
+          expect(cached.columns[0].pattern).toStrictEqual(/^\w+ \w+/);
+          expect(getFileLinesMock).toBeCalledTimes(1);
+        });
+      });
+
       describe("with cache file", () => {
         beforeEach(async () => {
           await tryDeleteFile(cacheFilePath);
@@ -200,6 +714,179 @@ describe("file-metadata", () => {
           expect(getFileLinesMock).toBeCalledTimes(1);
         });
       });
+
+      describe("with existing cache file", () => {
+        const input: CreateInput = {
+          delimiter: "|",
+          filePath: inputFilePath,
+          maxCardinality: 2,
+          metadataFilePath: cacheFilePath,
+        };
+
+        beforeEach(async () => {
+          await tryDeleteFile(cacheFilePath);
+          await copyFile(STAR_WARS_CHARACTERS, inputFilePath);
+        });
+
+        describe("different parameters", () => {
+          it("throws error", async () => {
+            await FileMetadata.create(input);
+
+            await expect(
+              FileMetadata.create({ ...input, maxCardinality: 3 })
+            ).rejects.toThrowError(/stale.+maxCardinality 2 instead of 3/i);
+          });
+        });
+
+        describe("different file contents", () => {
+          it("throws error", async () => {
+            await FileMetadata.create(input);
+            await copyFile(QUOTED_STAR_WARS_CHARACTERS, inputFilePath);
+
+            await expect(FileMetadata.create(input)).rejects.toThrowError(
+              /stale.+different version/i
+            );
+          });
+        });
+
+        describe("different cardinality threshold rules", () => {
+          it("throws error", async () => {
+            await FileMetadata.create(input);
+
+            await expect(
+              FileMetadata.create({
+                ...input,
+                rules: [
+                  { column: "force_alignment", maxRelativeCardinality: 5 },
+                ],
+              })
+            ).rejects.toThrowError(
+              /stale.+threshold {"maxCardinality":2,"maxRelativeCardinality":null} of column force_alignment/i
+            );
+          });
+        });
+
+        describe("same file contents with different mtime", () => {
+          it("uses cache", async () => {
+            await FileMetadata.create(input);
+            await utimes(inputFilePath, new Date(0), new Date(0));
+
+            await FileMetadata.create(input);
+
+            expect(getFileHashMock).toBeCalledTimes(2);
+            expect(getFileLinesMock).toBeCalledTimes(1);
+          });
+        });
+
+        describe("invalid column", () => {
+          it("throws error with JSON path", async () => {
+            const metadata = await FileMetadata.create(input);
+            const obj = JSON.parse(JSON.stringify(metadata));
+            obj.columns[1].name = null;
+            await writeFile(cacheFilePath, JSON.stringify(obj));
+
+            await expect(FileMetadata.create(input)).rejects.toThrowError(
+              /field: columns\[1\]\.name\. expected a string, but got null/i
+            );
+          });
+        });
+
+        describe("no source", () => {
+          it("throws error", async () => {
+            await writeFile(cacheFilePath, JSON.stringify({ columns: [] }));
+
+            await expect(FileMetadata.create(input)).rejects.toThrowError(
+              /stale.+doesn't record/i
+            );
+          });
+        });
+
+        describe("with sample", () => {
+          const sampleInput: CreateInput = {
+            ...input,
+            sample: { size: 2, strategy: "first" },
+          };
+
+          it("records sample and uses cache", async () => {
+            const expected = await FileMetadata.create(sampleInput);
+
+            const actual = await FileMetadata.create(sampleInput);
+
+            expect(expected.columns[0].count).toBe(2);
+            expect(actual.source?.parameters.sample).toStrictEqual({
+              strategy: "first",
+              size: 2,
+            });
+            expect(getFileLinesMock).toBeCalledTimes(1);
+          });
+
+          it("throws error if the sample is different", async () => {
+            await FileMetadata.create(sampleInput);
+
+            await expect(FileMetadata.create(input)).rejects.toThrowError(
+              /stale.+sample {"strategy":"first","size":2} instead of null/i
+            );
+          });
+
+          it("doesn't hash the file", async () => {
+            const actual = await FileMetadata.create(sampleInput);
+
+            expect(actual.source?.file.hash).toBeNull();
+            expect(getFileHashMock).not.toBeCalled();
+          });
+
+          it("throws error if the mtime is different", async () => {
+            await FileMetadata.create(sampleInput);
+            await utimes(inputFilePath, new Date(0), new Date(0));
+
+            await expect(FileMetadata.create(sampleInput)).rejects.toThrowError(
+              /stale.+different version/i
+            );
+            expect(getFileHashMock).not.toBeCalled();
+          });
+        });
+
+        describe("rebuild", () => {
+          it("ignores and overwrites cache", async () => {
+            await FileMetadata.create(input);
+            const rebuilt = await FileMetadata.create({
+              ...input,
+              maxCardinality: 3,
+              rebuild: true,
+            });
+
+            const actual = await FileMetadata.create({
+              ...input,
+              maxCardinality: 3,
+            });
+
+            expect(rebuilt.source?.parameters.maxCardinality).toBe(3);
+            expect(actual.source).toStrictEqual(rebuilt.source);
+            expect(getFileLinesMock).toBeCalledTimes(2);
+          });
+        });
+      });
+    });
+  });
+
+  describe("createHeaderSkipper", () => {
+    it("skips the lines of a quoted header", () => {
+      const isHeader = createHeaderSkipper(true, {
+        delimiter: "|",
+        quote: '"',
+      });
+
+      const actual = ['"first', 'name"|last_name', "Luke|Skywalker"].map(
+        isHeader
+      );
+
+      expect(actual).toStrictEqual([true, true, false]);
+    });
+
+    it("skips no lines without header", () => {
+      const isHeader = createHeaderSkipper(false, { delimiter: "|" });
+
+      expect(isHeader("name|force_alignment")).toBe(false);
     });
   });
 });
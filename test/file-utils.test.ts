@@ -1,8 +1,25 @@
+import { readFile, writeFile } from "node:fs/promises";
 import { basename } from "node:path";
-import { describe, expect, it } from "vitest";
+import { afterAll, describe, expect, it } from "vitest";
 
-import { getFileLines } from "../src/file-utils.js";
-import { LATIN_1, NO_NEW_LINE, THREE_LINES } from "./test-files/index.js";
+import type { FileEncoding } from "../src/encoding.js";
+import {
+  createFileWriter,
+  detectLineEnding,
+  getFileHash,
+  getFileLines,
+  getLineRanges,
+} from "../src/file-utils.js";
+import {
+  BOM_STAR_WARS_CHARACTERS,
+  CRLF_STAR_WARS_CHARACTERS,
+  LATIN_1,
+  NO_NEW_LINE,
+  THREE_LINES,
+  UTF_16BE_BOM,
+  WINDOWS_1252,
+} from "./test-files/index.js";
+import { tryDeleteFile } from "./utils.js";
 
 describe("file-utils", () => {
   describe("getFileLines", () => {
@@ -46,5 +63,245 @@ describe("file-utils", () => {
         expect(actual).toStrictEqual(["English", "Español"]);
       });
     });
+
+    [
+      {
+        encoding: "windows-1252",
+        filePath: WINDOWS_1252,
+        expected: ["Price|Item", "€10|Café"],
+      },
+      {
+        encoding: "utf-16be",
+        filePath: UTF_16BE_BOM,
+        expected: ["English", "Español"],
+      },
+      {
+        encoding: "utf8",
+        filePath: BOM_STAR_WARS_CHARACTERS,
+        expected: [
+          "name|force_alignment",
+          "Darth Vader|Dark",
+          "Luke Skywalker|Light",
+          "Obi Wan Kenobi|Light",
+        ],
+      },
+    ].forEach(({ encoding, filePath, expected }) => {
+      describe(`file: ${basename(filePath)}`, () => {
+        it("yields lines without byte order mark", async () => {
+          const actual: string[] = [];
+          for await (const line of getFileLines({
+            encoding: encoding as FileEncoding,
+            filePath,
+          })) {
+            actual.push(line);
+          }
+
+          expect(actual).toStrictEqual(expected);
+        });
+      });
+    });
+  });
+
+  describe("getFileLines with range", () => {
+    it("yields the lines of the range", async () => {
+      const actual: string[] = [];
+      for await (const line of getFileLines({
+        end: 14,
+        filePath: THREE_LINES,
+        start: 7,
+      })) {
+        actual.push(line);
+      }
+
+      expect(actual).toStrictEqual(["line 2"]);
+    });
+  });
+
+  describe("getLineRanges", () => {
+    [
+      { count: 1, expected: [{ start: 0, end: 21 }] },
+      {
+        count: 2,
+        expected: [
+          { start: 0, end: 14 },
+          { start: 14, end: 21 },
+        ],
+      },
+      {
+        count: 10,
+        expected: [
+          { start: 0, end: 7 },
+          { start: 7, end: 14 },
+          { start: 14, end: 21 },
+        ],
+      },
+    ].forEach(({ count, expected }) => {
+      describe(`count: ${count}`, () => {
+        it("splits the file at line breaks", async () => {
+          const actual = await getLineRanges({ count, filePath: THREE_LINES });
+
+          expect(actual).toStrictEqual(expected);
+        });
+      });
+    });
+
+    [
+      { encoding: "utf-16be", filePath: UTF_16BE_BOM },
+      { encoding: "utf8", filePath: CRLF_STAR_WARS_CHARACTERS },
+    ].forEach(({ encoding, filePath }) => {
+      describe(`file: ${basename(filePath)}`, () => {
+        it("yields the same lines as the whole file", async () => {
+          const expected: string[] = [];
+          for await (const line of getFileLines({
+            encoding: encoding as FileEncoding,
+            filePath,
+          })) {
+            expected.push(line);
+          }
+
+          const actual: string[] = [];
+          for (const range of await getLineRanges({
+            count: 3,
+            encoding: encoding as FileEncoding,
+            filePath,
+          })) {
+            for await (const line of getFileLines({
+              ...range,
+              encoding: encoding as FileEncoding,
+              filePath,
+            })) {
+              actual.push(line);
+            }
+          }
+
+          expect(actual).toStrictEqual(expected);
+        });
+      });
+    });
+
+    describe("start: 7", () => {
+      it("splits the file after the start", async () => {
+        const actual = await getLineRanges({
+          count: 2,
+          filePath: THREE_LINES,
+          start: 7,
+        });
+
+        expect(actual).toStrictEqual([
+          { start: 7, end: 14 },
+          { start: 14, end: 21 },
+        ]);
+      });
+    });
+  });
+
+  describe("detectLineEnding", () => {
+    [
+      { filePath: THREE_LINES, expected: "\n" },
+      { filePath: CRLF_STAR_WARS_CHARACTERS, expected: "\r\n" },
+      { filePath: UTF_16BE_BOM, encoding: "utf-16be", expected: "\n" },
+    ].forEach(({ filePath, encoding, expected }) => {
+      describe(`file: ${basename(filePath)}`, () => {
+        it(`returns ${JSON.stringify(expected)}`, async () => {
+          const actual = await detectLineEnding({
+            encoding: encoding as FileEncoding | undefined,
+            filePath,
+          });
+
+          expect(actual).toBe(expected);
+        });
+      });
+    });
+
+    describe("file without line breaks", () => {
+      const filePath = ".file-utils.test.no-line-breaks.txt";
+
+      afterAll(async () => {
+        await tryDeleteFile(filePath);
+      });
+
+      [
+        { text: "line", expected: undefined },
+        { text: "line\r", expected: "\r" },
+      ].forEach(({ text, expected }) => {
+        describe(`text: ${JSON.stringify(text)}`, () => {
+          it(`returns ${JSON.stringify(expected)}`, async () => {
+            await writeFile(filePath, text);
+
+            expect(await detectLineEnding({ filePath })).toBe(expected);
+          });
+        });
+      });
+    });
+  });
+
+  describe("getFileHash", () => {
+    it("returns SHA-256 hash of file contents", async () => {
+      const actual = await getFileHash(THREE_LINES);
+
+      expect(actual).toBe(
+        "6ca9d5edb68deaadc1d3130c5fc3ec36e12db72ad54e93edcd63bdfb40a83300"
+      );
+    });
+  });
+
+  describe("createFileWriter", () => {
+    const filePath = ".file-utils.test.txt";
+
+    afterAll(async () => {
+      await tryDeleteFile(filePath);
+    });
+
+    it("writes each line followed by a new line", async () => {
+      const writer = createFileWriter({ encoding: "latin1", filePath });
+      await writer.writeLine("English");
+      await writer.writeLine("Español");
+      await writer.close();
+
+      const actual = await readFile(filePath);
+
+      expect(actual).toStrictEqual(await readFile(LATIN_1));
+    });
+
+    it("writes text in encodings not supported by Buffer", async () => {
+      const writer = createFileWriter({ encoding: "windows-1252", filePath });
+      await writer.writeLine("Price|Item");
+      await writer.writeLine("€10|Café");
+      await writer.close();
+
+      const actual = await readFile(filePath);
+
+      expect(actual).toStrictEqual(await readFile(WINDOWS_1252));
+    });
+
+    describe("with line ending", () => {
+      it("writes each line followed by the line ending", async () => {
+        const writer = createFileWriter({ filePath, lineEnding: "\r\n" });
+        await writer.writeLine("line 1");
+        await writer.writeLine("line 2");
+        await writer.close();
+
+        const actual = await readFile(filePath, "utf8");
+
+        expect(actual).toBe("line 1\r\nline 2\r\n");
+      });
+    });
+
+    describe("with byte order mark", () => {
+      it("writes byte order mark at the start of the file", async () => {
+        const writer = createFileWriter({
+          bom: true,
+          encoding: "utf-16be",
+          filePath,
+        });
+        await writer.writeLine("English");
+        await writer.writeLine("Español");
+        await writer.close();
+
+        const actual = await readFile(filePath);
+
+        expect(actual).toStrictEqual(await readFile(UTF_16BE_BOM));
+      });
+    });
   });
 });
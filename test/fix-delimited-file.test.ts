@@ -0,0 +1,680 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { Arguments, LineEnding } from "../src/args.js";
+import { fixDelimitedFile } from "../src/fix-delimited-file.js";
+import {
+  AMBIGUOUS_STAR_WARS_CHARACTERS,
+  BOM_STAR_WARS_CHARACTERS,
+  BROKEN_STAR_WARS_CHARACTERS,
+  CRLF_STAR_WARS_CHARACTERS,
+  QUOTED_STAR_WARS_CHARACTERS,
+  TRUNCATED_STAR_WARS_CHARACTERS,
+  WINDOWS_1252,
+} from "./test-files/index.js";
+import { tryDeleteFile } from "./utils.js";
+
+describe("fix-delimited-file", () => {
+  const outputFilePath = ".fix-delimited-file.test.output.txt";
+  const unprocessedFilePath = ".fix-delimited-file.test.unprocessed.txt";
+  const reviewFilePath = ".fix-delimited-file.test.review.txt";
+  const auditFilePath = ".fix-delimited-file.test.audit.jsonl";
+  const inputMetadataFilePath = ".fix-delimited-file.test.json";
+  const overridesFilePath = ".fix-delimited-file.test.overrides.json";
+  const inputFilePath = ".fix-delimited-file.test.input.txt";
+
+  const args: Arguments = {
+    inputFilePath: BROKEN_STAR_WARS_CHARACTERS,
+    outputFilePath,
+    unprocessedFilePath,
+    unprocessedFormat: "text",
+    inputMetadataFilePath,
+    rebuildMetadata: false,
+    metadataWorkers: 1,
+    metadataIterations: 1,
+    inputDelimiter: "|",
+    delimiterRegex: false,
+    outputDelimiter: "\t",
+    delimiterReplacement: " ",
+    keepDelimiters: false,
+    decodeEscapes: false,
+    maxCardinality: 2,
+    ambiguityMargin: 0,
+    enforceMaxLength: false,
+    maxMergeLines: 100,
+    maxRecordLines: 100,
+    inputFileEncoding: "utf8",
+    outputFileEncoding: "utf8",
+    lineEnding: "lf",
+  };
+
+  afterEach(async () => {
+    await tryDeleteFile(outputFilePath);
+    await tryDeleteFile(unprocessedFilePath);
+    await tryDeleteFile(reviewFilePath);
+    await tryDeleteFile(auditFilePath);
+    await tryDeleteFile(inputMetadataFilePath);
+    await tryDeleteFile(overridesFilePath);
+    await tryDeleteFile(inputFilePath);
+  });
+
+  describe("fixDelimitedFile", () => {
+    it("writes fixed rows and unprocessed lines", async () => {
+      const actual = await fixDelimitedFile(args);
+
+      expect(actual).toStrictEqual({
+        inputLines: 9,
+        rows: 6,
+        rowLines: 7,
+        unprocessedLines: 1,
+        ambiguousLines: 0,
+      });
+      expect(await readFile(outputFilePath, "utf8")).toBe(
+        [
+          "name\tforce_alignment",
+          "Darth Vader\tDark",
+          "Luke Skywalker\tLight",
+          "Obi Wan Kenobi\tLight",
+          "Darth Sidious\tDark",
+          "Han Solo\tLight",
+          "Leia Organa\tLight",
+          "",
+        ].join("\n")
+      );
+      expect(await readFile(unprocessedFilePath, "utf8")).toBe("Jar Jar\n");
+    });
+
+    [
+      { inputFilePath: BROKEN_STAR_WARS_CHARACTERS, ambiguityMargin: 0 },
+      { inputFilePath: AMBIGUOUS_STAR_WARS_CHARACTERS, ambiguityMargin: 3 },
+    ].forEach(({ inputFilePath, ambiguityMargin }) => {
+      describe(`with ${basename(inputFilePath)}`, () => {
+        it("counts every input line once", async () => {
+          const { inputLines, rowLines, unprocessedLines, ambiguousLines } =
+            await fixDelimitedFile({ ...args, inputFilePath, ambiguityMargin });
+
+          expect(1 + rowLines + unprocessedLines + ambiguousLines).toBe(
+            inputLines
+          );
+        });
+      });
+    });
+
+    describe("with minimum options", () => {
+      it("uses the default arguments", async () => {
+        const actual = await fixDelimitedFile({
+          inputFilePath: BROKEN_STAR_WARS_CHARACTERS,
+          outputFilePath,
+          unprocessedFilePath,
+          inputMetadataFilePath,
+        });
+
+        // the names are not unbounded with the default maximum cardinality, so they're not merged
+        expect(actual).toStrictEqual({
+          inputLines: 9,
+          rows: 4,
+          rowLines: 4,
+          unprocessedLines: 4,
+          ambiguousLines: 0,
+        });
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          "name\tforce_alignment\nDarth Vader\tDark\nLuke Skywalker\tLight\nObi Wan Kenobi\tLight\nLeia Organa\tLight\n"
+        );
+      });
+    });
+
+    describe("with metadata overrides", () => {
+      it("parses the lines with the overridden metadata", async () => {
+        await writeFile(
+          overridesFilePath,
+          JSON.stringify([
+            { column: "name", unbounded: true, name: "character" },
+          ])
+        );
+
+        const actual = await fixDelimitedFile({
+          inputFilePath: BROKEN_STAR_WARS_CHARACTERS,
+          outputFilePath,
+          unprocessedFilePath,
+          inputMetadataFilePath,
+          metadataOverridesFilePath: overridesFilePath,
+        });
+
+        // unlike with the default maximum cardinality only, the names are merged
+        expect(actual).toStrictEqual({
+          inputLines: 9,
+          rows: 6,
+          rowLines: 7,
+          unprocessedLines: 1,
+          ambiguousLines: 0,
+        });
+        expect(await readFile(outputFilePath, "utf8")).toMatch(
+          /^character\tforce_alignment\n/
+        );
+        expect(
+          JSON.parse(await readFile(inputMetadataFilePath, "utf8")).columns[0]
+        ).toMatchObject({ name: "name", unbounded: false });
+      });
+    });
+
+    describe("with overrides of the cached metadata", () => {
+      it("parses the lines the same way as with the built metadata", async () => {
+        await writeFile(
+          overridesFilePath,
+          JSON.stringify([{ column: "force_alignment", unbounded: false }])
+        );
+        const options = {
+          ...args,
+          maxRelativeCardinality: 10,
+          metadataOverridesFilePath: overridesFilePath,
+        };
+
+        const built = await fixDelimitedFile(options);
+        const builtOutput = await readFile(outputFilePath, "utf8");
+        const cached = await fixDelimitedFile(options);
+
+        expect(built.rows).toBe(6);
+        expect(cached).toStrictEqual(built);
+        expect(await readFile(outputFilePath, "utf8")).toBe(builtOutput);
+      });
+    });
+
+    describe("with metadata workers", () => {
+      it("writes the same rows as a single thread", async () => {
+        const actual = await fixDelimitedFile({ ...args, metadataWorkers: 3 });
+
+        expect(actual).toStrictEqual({
+          inputLines: 9,
+          rows: 6,
+          rowLines: 7,
+          unprocessedLines: 1,
+          ambiguousLines: 0,
+        });
+      });
+    });
+
+    describe("with metadata iterations", () => {
+      it("returns the anchor changes", async () => {
+        const actual = await fixDelimitedFile({
+          ...args,
+          metadataIterations: 3,
+        });
+
+        expect(actual).toStrictEqual({
+          inputLines: 9,
+          rows: 6,
+          rowLines: 7,
+          unprocessedLines: 1,
+          ambiguousLines: 0,
+          anchorChanges: [
+            {
+              iteration: 2,
+              anchors: ["force_alignment"],
+              added: [],
+              removed: [],
+            },
+          ],
+        });
+      });
+    });
+
+    describe("with quoted values", () => {
+      it("quotes output values with delimiters or line breaks", async () => {
+        const actual = await fixDelimitedFile({
+          ...args,
+          inputFilePath: QUOTED_STAR_WARS_CHARACTERS,
+          outputDelimiter: "|",
+          quoteCharacter: '"',
+        });
+
+        expect(actual.rows).toBe(4);
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          [
+            "name|force_alignment",
+            '"Skywalker|Luke"|Light',
+            '"Vader|""Darth"""|Dark',
+            '"Kenobi\nObi Wan"|Light',
+            "Palpatine|Dark",
+            "",
+          ].join("\n")
+        );
+      });
+    });
+
+    describe("with decoded escape sequences", () => {
+      it("replaces output delimiters and line breaks", async () => {
+        await writeFile(
+          inputFilePath,
+          "name|force_alignment\nSky\\|walker\\nLuke|Light\n"
+        );
+
+        const actual = await fixDelimitedFile({
+          ...args,
+          decodeEscapes: true,
+          escapeCharacter: "\\",
+          inputFilePath,
+          newlineReplacement: " / ",
+          outputDelimiter: "|",
+        });
+
+        expect(actual.rows).toBe(1);
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          "name|force_alignment\nSky walker / Luke|Light\n"
+        );
+      });
+    });
+
+    describe("with a quote that is never closed", () => {
+      it("writes the lines of the record to unprocessed file", async () => {
+        await writeFile(
+          inputFilePath,
+          'name|force_alignment\n"Luke Skywalker|Light\nDarth Vader|Dark\nObi Wan|Light\nPalpatine|Dark\n'
+        );
+
+        const actual = await fixDelimitedFile({
+          ...args,
+          inputFilePath,
+          maxRecordLines: 2,
+          quoteCharacter: '"',
+        });
+
+        expect(actual).toStrictEqual({
+          inputLines: 5,
+          rows: 2,
+          rowLines: 2,
+          unprocessedLines: 2,
+          ambiguousLines: 0,
+        });
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          "name\tforce_alignment\nObi Wan\tLight\nPalpatine\tDark\n"
+        );
+        expect(await readFile(unprocessedFilePath, "utf8")).toBe(
+          '"Luke Skywalker|Light\nDarth Vader|Dark\n'
+        );
+      });
+    });
+
+    describe("with lines pending at the end of the input", () => {
+      it("writes pending lines to unprocessed file", async () => {
+        const actual = await fixDelimitedFile({
+          ...args,
+          inputFilePath: TRUNCATED_STAR_WARS_CHARACTERS,
+        });
+
+        expect(actual).toStrictEqual({
+          inputLines: 6,
+          rows: 3,
+          rowLines: 3,
+          unprocessedLines: 2,
+          ambiguousLines: 0,
+        });
+        expect(await readFile(unprocessedFilePath, "utf8")).toBe(
+          "Han Solo\nLeia\n"
+        );
+      });
+    });
+
+    describe("with max merge lines", () => {
+      it("writes evicted lines to unprocessed file", async () => {
+        const actual = await fixDelimitedFile({ ...args, maxMergeLines: 1 });
+
+        expect(actual).toStrictEqual({
+          inputLines: 9,
+          rows: 5,
+          rowLines: 5,
+          unprocessedLines: 3,
+          ambiguousLines: 0,
+        });
+        expect(await readFile(unprocessedFilePath, "utf8")).toBe(
+          "Han Solo\nLight\nJar Jar\n"
+        );
+      });
+    });
+
+    describe("with number of rows", () => {
+      it("stops writing after the maximum number of rows", async () => {
+        const actual = await fixDelimitedFile({ ...args, numberOfRows: 2 });
+
+        expect(actual).toStrictEqual({
+          inputLines: 3,
+          rows: 2,
+          rowLines: 2,
+          unprocessedLines: 0,
+          ambiguousLines: 0,
+        });
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          "name\tforce_alignment\nDarth Vader\tDark\nLuke Skywalker\tLight\n"
+        );
+      });
+    });
+
+    describe("with header and column names", () => {
+      it("skips header and writes column names", async () => {
+        const actual = await fixDelimitedFile({
+          ...args,
+          columnNames: "character,side",
+          hasHeader: true,
+          numberOfRows: 1,
+        });
+
+        expect(actual.rows).toBe(1);
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          "character\tside\nDarth Vader\tDark\n"
+        );
+      });
+    });
+
+    describe("without header", () => {
+      it("processes first line as a row", async () => {
+        const actual = await fixDelimitedFile({
+          ...args,
+          hasHeader: false,
+          maxCardinality: 3,
+          numberOfRows: 1,
+        });
+
+        expect(actual.rows).toBe(1);
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          "name\tforce_alignment\n"
+        );
+      });
+    });
+
+    describe("with metadata sample", () => {
+      // with a single merge line, the lines that miss the anchor column are evicted instead
+      [100, 1].forEach((maxMergeLines) => {
+        describe(`maxMergeLines: ${maxMergeLines}`, () => {
+          it("counts lines with unmatched anchor columns", async () => {
+            const actual = await fixDelimitedFile({
+              ...args,
+              maxCardinality: 3,
+              maxMergeLines,
+              metadataSample: "first:2",
+            });
+
+            // the sampled names are the only values of the bounded name column
+            expect(actual).toStrictEqual({
+              inputLines: 9,
+              rows: 2,
+              rowLines: 2,
+              unprocessedLines: 6,
+              ambiguousLines: 0,
+              unmatchedAnchorLines: { name: 3 },
+            });
+          });
+        });
+      });
+    });
+
+    describe("with auto input delimiter", () => {
+      it("detects delimiter", async () => {
+        const actual = await fixDelimitedFile({
+          ...args,
+          inputDelimiter: "auto",
+        });
+
+        expect(actual.rows).toBe(6);
+        expect(actual.detectedDelimiter?.delimiter).toBe("|");
+        expect(actual.detectedDelimiter?.confidence).toBeGreaterThan(0);
+      });
+    });
+
+    describe("with regex delimiter and kept delimiters", () => {
+      it("keeps matched delimiters in merged columns", async () => {
+        await fixDelimitedFile({
+          ...args,
+          delimiterRegex: true,
+          inputDelimiter: "\\|+",
+          keepDelimiters: true,
+        });
+
+        expect(await readFile(outputFilePath, "utf8")).toContain(
+          "Darth|Sidious\tDark\n"
+        );
+      });
+    });
+
+    describe("with output encoding", () => {
+      it("writes files with the specified encoding", async () => {
+        await fixDelimitedFile({ ...args, outputFileEncoding: "utf16le" });
+
+        expect(await readFile(unprocessedFilePath, "utf16le")).toBe(
+          "Jar Jar\n"
+        );
+      });
+    });
+
+    describe("with auto input encoding", () => {
+      it("detects encoding and decodes input file", async () => {
+        const actual = await fixDelimitedFile({
+          ...args,
+          inputFilePath: WINDOWS_1252,
+          inputFileEncoding: "auto",
+        });
+
+        expect(actual).toStrictEqual({
+          inputLines: 2,
+          rows: 1,
+          rowLines: 1,
+          unprocessedLines: 0,
+          ambiguousLines: 0,
+          detectedEncoding: { encoding: "windows-1252", bom: false },
+        });
+        expect(await readFile(outputFilePath, "utf8")).toBe(
+          "Price\tItem\n€10\tCafé\n"
+        );
+      });
+    });
+
+    describe("with input byte order mark", () => {
+      const bomArgs: Arguments = {
+        ...args,
+        inputFilePath: BOM_STAR_WARS_CHARACTERS,
+      };
+
+      [
+        { outputBom: undefined, expected: "\uFEFFname\tforce_alignment\n" },
+        { outputBom: false, expected: "name\tforce_alignment\n" },
+      ].forEach(({ outputBom, expected }) => {
+        describe(`output BOM: ${outputBom}`, () => {
+          it("strips byte order mark from column names", async () => {
+            await fixDelimitedFile({ ...bomArgs, outputBom });
+
+            expect(await readFile(outputFilePath, "utf8")).toMatch(
+              new RegExp(`^${expected}`)
+            );
+          });
+        });
+      });
+
+      describe("with output encoding that can't represent it", () => {
+        it("omits byte order mark", async () => {
+          await fixDelimitedFile({ ...bomArgs, outputFileEncoding: "latin1" });
+
+          expect(await readFile(outputFilePath, "latin1")).toMatch(
+            /^name\tforce_alignment\n/
+          );
+        });
+      });
+    });
+
+    describe("with output BOM and output encoding that can't represent it", () => {
+      it("throws error", async () => {
+        await expect(
+          fixDelimitedFile({
+            ...args,
+            outputBom: true,
+            outputFileEncoding: "windows-1252",
+          })
+        ).rejects.toThrowError(/byte order mark can't be written/i);
+      });
+    });
+
+    describe("with line ending", () => {
+      const crlfArgs: Arguments = {
+        ...args,
+        inputFilePath: CRLF_STAR_WARS_CHARACTERS,
+      };
+
+      [
+        {
+          inputFilePath: BROKEN_STAR_WARS_CHARACTERS,
+          lineEnding: "crlf",
+          expected: "\r\n",
+        },
+        {
+          inputFilePath: CRLF_STAR_WARS_CHARACTERS,
+          lineEnding: "lf",
+          expected: "\n",
+        },
+        {
+          inputFilePath: CRLF_STAR_WARS_CHARACTERS,
+          lineEnding: "preserve",
+          expected: "\r\n",
+        },
+        {
+          inputFilePath: BROKEN_STAR_WARS_CHARACTERS,
+          lineEnding: "preserve",
+          expected: "\n",
+        },
+      ].forEach(({ inputFilePath, lineEnding, expected }) => {
+        describe(`input: ${basename(
+          inputFilePath
+        )}, line ending: ${lineEnding}`, () => {
+          it("writes lines with the line ending", async () => {
+            await fixDelimitedFile({
+              ...args,
+              inputFilePath,
+              lineEnding: lineEnding as LineEnding,
+            });
+
+            expect(await readFile(outputFilePath, "utf8")).toMatch(
+              new RegExp(
+                `^name\tforce_alignment${expected}Darth Vader\tDark${expected}`
+              )
+            );
+          });
+        });
+      });
+
+      describe("with newline replacement", () => {
+        it("joins lines of a value broken across lines", async () => {
+          await fixDelimitedFile({ ...crlfArgs, newlineReplacement: "<br>" });
+
+          expect(await readFile(outputFilePath, "utf8")).toContain(
+            "\nLuke<br>Skywalker\tLight\n"
+          );
+        });
+      });
+
+      describe("without newline replacement", () => {
+        it("joins lines with delimiter replacement", async () => {
+          await fixDelimitedFile(crlfArgs);
+
+          expect(await readFile(outputFilePath, "utf8")).toContain(
+            "\nLuke Skywalker\tLight\n"
+          );
+        });
+      });
+    });
+
+    describe("with jsonl unprocessed format", () => {
+      it("writes unprocessed lines as JSON Lines", async () => {
+        await fixDelimitedFile({ ...args, unprocessedFormat: "jsonl" });
+
+        expect(await readFile(unprocessedFilePath, "utf8")).toBe(
+          JSON.stringify({
+            lineNumber: 8,
+            columns: 1,
+            reason: "too-few-columns",
+            text: "Jar Jar",
+          }) + "\n"
+        );
+      });
+    });
+
+    describe("with audit file", () => {
+      it("writes repaired rows to audit file", async () => {
+        await fixDelimitedFile({ ...args, auditFilePath });
+
+        expect(await readFile(auditFilePath, "utf8")).toBe(
+          [
+            {
+              lineNumbers: [5],
+              tokens: ["Darth", "Sidious", "Dark"],
+              merges: [{ column: "name", tokens: [0, 1] }],
+              anchors: [{ column: "force_alignment", token: 2 }],
+            },
+            {
+              lineNumbers: [6, 7],
+              tokens: ["Han Solo", "Light"],
+              merges: [],
+              anchors: [{ column: "force_alignment", token: 1 }],
+            },
+          ]
+            .map((x) => JSON.stringify(x) + "\n")
+            .join("")
+        );
+      });
+    });
+
+    describe("with ambiguous lines", () => {
+      const ambiguousArgs: Arguments = {
+        ...args,
+        inputFilePath: AMBIGUOUS_STAR_WARS_CHARACTERS,
+        ambiguityMargin: 3,
+      };
+
+      describe("with default ambiguity margin", () => {
+        it("writes tied lines to unprocessed file", async () => {
+          await writeFile(
+            inputFilePath,
+            "first_name|last_name|force_alignment\nAb|Ab|Light\nCd|Cd|Dark\nEf|Ef|Light\nAb|Ab|Ab|Light\n"
+          );
+          const { ambiguityMargin, ...options } = ambiguousArgs;
+
+          const actual = await fixDelimitedFile({ ...options, inputFilePath });
+
+          expect(ambiguityMargin).not.toBe(0);
+          expect(actual).toStrictEqual({
+            inputLines: 5,
+            rows: 3,
+            rowLines: 3,
+            unprocessedLines: 0,
+            ambiguousLines: 1,
+          });
+          expect(await readFile(unprocessedFilePath, "utf8")).toBe(
+            "Ab|Ab|Ab|Light\n"
+          );
+        });
+      });
+
+      it("writes ambiguous lines to unprocessed file", async () => {
+        const actual = await fixDelimitedFile(ambiguousArgs);
+
+        expect(actual).toStrictEqual({
+          inputLines: 6,
+          rows: 4,
+          rowLines: 4,
+          unprocessedLines: 0,
+          ambiguousLines: 1,
+        });
+        expect(await readFile(unprocessedFilePath, "utf8")).toBe(
+          "Jar|Jar|Binks|Light\n"
+        );
+      });
+
+      describe("with review file", () => {
+        it("writes ambiguous lines to review file", async () => {
+          await fixDelimitedFile({ ...ambiguousArgs, reviewFilePath });
+
+          expect(await readFile(unprocessedFilePath, "utf8")).toBe("");
+          expect(await readFile(reviewFilePath, "utf8")).toBe(
+            "Jar|Jar|Binks|Light\n"
+          );
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { Readable } from "node:stream";
+import { describe, expect, it } from "vitest";
+
+import { FileMetadata } from "../src/file-metadata.js";
+import { FixStreamOptions, createFixStream } from "../src/fix-stream.js";
+import { Repair, UnprocessedLine } from "../src/line-parser.js";
+import { createColumnMetadata } from "./utils.js";
+
+describe("fix-stream", () => {
+  const metadata = new FileMetadata([
+    createColumnMetadata({ name: "name", unbounded: true }),
+    createColumnMetadata({
+      name: "side",
+      unbounded: false,
+      uniqueValues: ["Dark", "Light"],
+    }),
+  ]);
+
+  const fix = async (
+    chunks: readonly (Buffer | string)[],
+    options: Omit<FixStreamOptions, "delimiter"> = {}
+  ) => {
+    const stream = createFixStream(metadata, { ...options, delimiter: "|" });
+    const unprocessedLines: UnprocessedLine[] = [];
+    const repairs: Repair[] = [];
+    stream.on("unprocessed", (x) => unprocessedLines.push(x));
+    stream.on("repair", (x) => repairs.push(x));
+
+    const rows = await Readable.from(chunks).pipe(stream).toArray();
+    return { rows, unprocessedLines, repairs };
+  };
+
+  describe("createFixStream", () => {
+    describe("chunks", () => {
+      it("splits chunks into lines", async () => {
+        const actual = await fix(
+          [
+            "name|side\r\nDarth Vader|Da",
+            "rk\nLuke\nSkywalker\nLight\nJar Jar",
+          ],
+          { header: true }
+        );
+
+        expect(actual).toStrictEqual({
+          rows: [
+            ["Darth Vader", "Dark"],
+            ["Luke Skywalker", "Light"],
+          ],
+          unprocessedLines: [
+            {
+              lineNumber: 6,
+              columns: 1,
+              reason: "too-few-columns",
+              text: "Jar Jar",
+            },
+          ],
+          repairs: [],
+        });
+      });
+
+      it("decodes characters split between chunks", async () => {
+        const bytes = Buffer.from("Padmé|Light\n");
+
+        const actual = await fix([bytes.subarray(0, 5), bytes.subarray(5)]);
+
+        expect(actual.rows).toStrictEqual([["Padmé", "Light"]]);
+      });
+    });
+
+    describe("lines", () => {
+      it("parses each chunk as a line", async () => {
+        const actual = await fix(["Darth Vader|Dark", "Han|Solo|Light"], {
+          lines: true,
+        });
+
+        expect(actual.rows).toStrictEqual([
+          ["Darth Vader", "Dark"],
+          ["Han Solo", "Light"],
+        ]);
+      });
+    });
+
+    describe("rowFormat: object", () => {
+      it("returns rows keyed by column name", async () => {
+        const actual = await fix(["Darth Vader|Dark\n"], {
+          rowFormat: "object",
+        });
+
+        expect(actual.rows).toStrictEqual([
+          { name: "Darth Vader", side: "Dark" },
+        ]);
+      });
+    });
+
+    describe("rowFormat: text", () => {
+      it("returns delimited lines with quoted values", async () => {
+        const actual = await fix(['"Sky|walker\nLu', 'ke"|Light\n'], {
+          outputDelimiter: "|",
+          quote: '"',
+          rowFormat: "text",
+        });
+
+        expect(actual.rows).toStrictEqual(['"Sky|walker\nLuke"|Light']);
+      });
+    });
+
+    describe("audit", () => {
+      it("emits repairs", async () => {
+        const actual = await fix(["Han|Solo|Light\n"], { audit: true });
+
+        expect(actual.repairs).toStrictEqual([
+          {
+            lineNumbers: [1],
+            tokens: ["Han", "Solo", "Light"],
+            merges: [{ column: "name", tokens: [0, 1] }],
+            anchors: [{ column: "side", token: 2 }],
+          },
+        ]);
+      });
+    });
+  });
+});
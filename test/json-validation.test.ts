@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getJsonPath,
+  validateArray,
+  validateInteger,
+  validateNullable,
+  validateObject,
+  validateOneOf,
+  validatePercentage,
+  validateRecord,
+  validateString,
+} from "../src/json-validation.js";
+
+describe("json-validation", () => {
+  describe("getJsonPath", () => {
+    [
+      { path: "", key: "columns", expected: "columns" },
+      { path: "columns", key: 3, expected: "columns[3]" },
+      { path: "columns[3]", key: "name", expected: "columns[3].name" },
+    ].forEach(({ path, key, expected }) => {
+      describe(`path: ${path}, key: ${key}`, () => {
+        it(`returns ${expected}`, () => {
+          expect(getJsonPath(path, key)).toBe(expected);
+        });
+      });
+    });
+  });
+
+  describe("validateArray", () => {
+    it("validates each item with its path", () => {
+      expect(() =>
+        validateArray(["a", 5], "columns[3].uniqueValues", validateString)
+      ).toThrowError(
+        "Missing or invalid type for field: columns[3].uniqueValues[1]. Expected a string, but got number 5."
+      );
+    });
+
+    it("returns validated items", () => {
+      expect(validateArray(["a", "b"], "values", validateString)).toStrictEqual(
+        ["a", "b"]
+      );
+    });
+  });
+
+  describe("validateInteger", () => {
+    [
+      {
+        value: undefined,
+        min: 0,
+        message: /expected a non-negative integer, but got nothing/i,
+      },
+      {
+        value: -1,
+        min: 0,
+        message: /expected a non-negative integer, but got number -1/i,
+      },
+      {
+        value: 1.5,
+        min: 0,
+        message: /expected a non-negative integer, but got number 1.5/i,
+      },
+      {
+        value: 0,
+        min: 1,
+        message: /expected an integer of at least 1, but got number 0/i,
+      },
+    ].forEach(({ value, min, message }) => {
+      describe(`value: ${value}, min: ${min}`, () => {
+        it("throws error", () => {
+          expect(() => validateInteger(value, "count", min)).toThrowError(
+            message
+          );
+        });
+      });
+    });
+  });
+
+  describe("validateNullable", () => {
+    it("accepts null", () => {
+      expect(validateNullable(null, "quote", validateString)).toBeNull();
+    });
+
+    it("validates other values", () => {
+      expect(() => validateNullable(1, "quote", validateString)).toThrowError(
+        /quote.+expected a string/i
+      );
+    });
+  });
+
+  describe("validateObject", () => {
+    describe("not an object", () => {
+      it("throws error", () => {
+        expect(() => validateObject([], "", ["name"])).toThrowError(
+          /field: \(root\)\. expected an object, but got an array/i
+        );
+      });
+    });
+
+    describe("unknown field", () => {
+      it("throws error", () => {
+        expect(() =>
+          validateObject({ name: "a", other: 1 }, "columns[0]", ["name"])
+        ).toThrowError(
+          "Unknown field: columns[0].other. Expected one of: name."
+        );
+      });
+    });
+  });
+
+  describe("validateOneOf", () => {
+    it("throws error listing the valid values", () => {
+      expect(() =>
+        validateOneOf("other", "types[0]", new Set(["a", "b"]))
+      ).toThrowError(
+        /types\[0\]\. expected one of "a", "b", but got string "other"/i
+      );
+    });
+  });
+
+  describe("validatePercentage", () => {
+    [0, -1, 100.5, "5"].forEach((value) => {
+      describe(`value: ${JSON.stringify(value)}`, () => {
+        it("throws error", () => {
+          expect(() => validatePercentage(value, "ratio")).toThrowError(
+            /ratio\. expected a number greater than 0 and at most 100/i
+          );
+        });
+      });
+    });
+
+    [0.5, 100].forEach((value) => {
+      describe(`value: ${value}`, () => {
+        it("returns value", () => {
+          expect(validatePercentage(value, "ratio")).toBe(value);
+        });
+      });
+    });
+  });
+
+  describe("validateRecord", () => {
+    it("validates each field value with its path", () => {
+      expect(() =>
+        validateRecord({ a: 1, b: "2" }, "lengths", validateInteger)
+      ).toThrowError(/lengths\.b\. expected a non-negative integer/i);
+    });
+  });
+});
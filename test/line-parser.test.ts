@@ -166,6 +166,7 @@ describe("LineParser", () => {
               "val-4",
               "val-5 val-6",
             ],
+            lineNumbers: [1, 2, 3],
             unprocessedLines: [],
           });
         });
@@ -191,7 +192,20 @@ describe("LineParser", () => {
             });
             expect(third).toStrictEqual({
               columns: ["val-6", "val-7", "col-3-val-1", "val-8", "val-9"],
-              unprocessedLines: [firstLine, secondLine],
+              unprocessedLines: [
+                {
+                  lineNumber: 1,
+                  columns: 3,
+                  reason: "too-few-columns",
+                  text: firstLine,
+                },
+                {
+                  lineNumber: 2,
+                  columns: 2,
+                  reason: "too-few-columns",
+                  text: secondLine,
+                },
+              ],
             });
           });
         });
@@ -236,11 +250,794 @@ describe("LineParser", () => {
             });
             expect(fourth).toStrictEqual({
               columns: ["col-1-val-1", "col-2-val-1", "val-4 val-5"],
-              unprocessedLines: [firstLine, secondLine],
+              lineNumbers: [3, 4],
+              unprocessedLines: [
+                {
+                  lineNumber: 1,
+                  columns: 2,
+                  reason: "skipped-while-merging",
+                  text: firstLine,
+                },
+                {
+                  lineNumber: 2,
+                  columns: 2,
+                  reason: "skipped-while-merging",
+                  text: secondLine,
+                },
+              ],
             });
           });
         });
       });
     });
+
+    describe("quoted columns", () => {
+      let parser: LineParser;
+      beforeEach(() => {
+        parser = new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({ unbounded: true }),
+            createColumnMetadata({
+              unbounded: false,
+              uniqueValues: ["col-2-val-1", "col-2-val-2", "col-2-val-3"],
+            }),
+          ]),
+          " ",
+          { quote: '"' }
+        );
+      });
+
+      describe("quoted value contains delimiter", () => {
+        it("does not split quoted value", () => {
+          const actual = parser.parse('"val|1"|col-2-val-1');
+
+          expect(actual).toStrictEqual({
+            columns: ["val|1", "col-2-val-1"],
+            unprocessedLines: [],
+          });
+        });
+      });
+
+      describe("unquoted delimiter collision", () => {
+        it("merges only unquoted columns", () => {
+          const actual = parser.parse('"val|1"|val-2|col-2-val-1');
+
+          expect(actual).toStrictEqual({
+            columns: ["val|1 val-2", "col-2-val-1"],
+            unprocessedLines: [],
+          });
+        });
+      });
+
+      describe("quoted value spans lines", () => {
+        it("parses record once the quote is closed", () => {
+          const first = parser.parse('"val');
+          const second = parser.parse('1"|col-2-val-1');
+
+          expect(first).toStrictEqual({
+            columns: null,
+            unprocessedLines: [],
+          });
+          expect(second).toStrictEqual({
+            columns: ["val\n1", "col-2-val-1"],
+            lineNumbers: [1, 2],
+            unprocessedLines: [],
+          });
+        });
+      });
+
+      describe("unprocessed record spans lines", () => {
+        it("returns record text", () => {
+          parser.parse('"val');
+          parser.parse('1"');
+          const actual = parser.parse("val-2|col-2-val-2");
+
+          expect(actual).toStrictEqual({
+            columns: ["val-2", "col-2-val-2"],
+            unprocessedLines: [
+              {
+                lineNumber: 1,
+                columns: 1,
+                reason: "too-few-columns",
+                text: '"val\n1"',
+              },
+            ],
+          });
+        });
+      });
+    });
+
+    describe("escaped delimiters", () => {
+      it("does not split escaped delimiters", () => {
+        const parser = new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({ unbounded: true }),
+            createColumnMetadata({
+              unbounded: false,
+              uniqueValues: ["col-2-val-1"],
+            }),
+          ]),
+          " ",
+          { decodeEscapes: true, escape: "\\" }
+        );
+
+        const actual = parser.parse("val\\|1|val-2|col-2-val-1");
+
+        expect(actual).toStrictEqual({
+          columns: ["val|1 val-2", "col-2-val-1"],
+          unprocessedLines: [],
+        });
+      });
+    });
+
+    describe("multi-character and regex delimiters", () => {
+      const metadata = new FileMetadata([
+        createColumnMetadata({ unbounded: true }),
+        createColumnMetadata({ unbounded: false, uniqueValues: ["F", "M"] }),
+      ]);
+
+      [
+        { delimiter: "~|~", line: "Mary~|~Ann~|~F", kept: "Mary~|~Ann" },
+        { delimiter: /\t+/, line: "Mary\t\tAnn\tF", kept: "Mary\t\tAnn" },
+      ].forEach(({ delimiter, kept, line }) => {
+        describe(`delimiter: ${delimiter}`, () => {
+          it("replaces delimiters in merged columns", () => {
+            const parser = new LineParser(delimiter, metadata, "_");
+
+            const actual = parser.parse(line);
+
+            expect(actual).toStrictEqual({
+              columns: ["Mary_Ann", "F"],
+              unprocessedLines: [],
+            });
+          });
+
+          it("keeps delimiters in merged columns", () => {
+            const parser = new LineParser(delimiter, metadata, "_", {
+              keepDelimiters: true,
+            });
+
+            const actual = parser.parse(line);
+
+            expect(actual).toStrictEqual({
+              columns: [kept, "F"],
+              unprocessedLines: [],
+            });
+          });
+        });
+      });
+
+      describe("columns merged across lines", () => {
+        it("joins lines with merge separator", () => {
+          const parser = new LineParser("~|~", metadata, "_", {
+            keepDelimiters: true,
+          });
+
+          parser.parse("Mary~|~Ann");
+          parser.parse("Lee");
+          const actual = parser.parse("F");
+
+          expect(actual).toStrictEqual({
+            columns: ["Mary~|~Ann_Lee", "F"],
+            lineNumbers: [1, 2, 3],
+            unprocessedLines: [],
+          });
+        });
+
+        [
+          { keepDelimiters: false, expected: "Mary_Ann<br>Lee" },
+          { keepDelimiters: true, expected: "Mary~|~Ann<br>Lee" },
+        ].forEach(({ keepDelimiters, expected }) => {
+          describe(`keep delimiters: ${keepDelimiters}`, () => {
+            it("joins lines with newline replacement", () => {
+              const parser = new LineParser("~|~", metadata, "_", {
+                keepDelimiters,
+                newlineReplacement: "<br>",
+              });
+
+              parser.parse("Mary~|~Ann");
+              parser.parse("Lee");
+              const actual = parser.parse("F");
+
+              expect(actual).toStrictEqual({
+                columns: [expected, "F"],
+                lineNumbers: [1, 2, 3],
+                unprocessedLines: [],
+              });
+            });
+          });
+        });
+      });
+    });
+
+    describe("multiple candidates", () => {
+      const createParser = (ambiguityMargin?: number) =>
+        new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({
+              characterClasses: ["letter"],
+              count: 10,
+              maxLength: 5,
+              unbounded: true,
+            }),
+            createColumnMetadata({
+              characterClasses: ["letter", "whitespace"],
+              count: 10,
+              maxLength: 12,
+              unbounded: true,
+            }),
+            createColumnMetadata({
+              unbounded: false,
+              uniqueValues: ["F", "M"],
+            }),
+          ]),
+          " ",
+          { ambiguityMargin }
+        );
+
+      describe("negative ambiguity margin", () => {
+        it("throws error", () => {
+          expect(() => createParser(-1)).toThrowError(
+            /must be a non-negative number/i
+          );
+        });
+      });
+
+      describe("candidates with different scores", () => {
+        it("returns best candidate", () => {
+          const actual = createParser(0).parse("Mary|Ann|Smith|F");
+
+          expect(actual).toStrictEqual({
+            columns: ["Mary", "Ann Smith", "F"],
+            unprocessedLines: [],
+          });
+        });
+      });
+
+      describe("anchor matches multiple times", () => {
+        it("returns best candidate", () => {
+          const actual = createParser(0).parse("Ann|Lee|M|F");
+
+          expect(actual).toStrictEqual({
+            columns: ["Ann", "Lee M", "F"],
+            unprocessedLines: [],
+          });
+        });
+      });
+
+      describe("candidates with close scores", () => {
+        const line = "Mary|Ann|Lee|F";
+
+        describe("without ambiguity margin", () => {
+          it("returns first best candidate", () => {
+            const actual = createParser().parse(line);
+
+            expect(actual).toStrictEqual({
+              columns: ["Mary", "Ann Lee", "F"],
+              unprocessedLines: [],
+            });
+          });
+        });
+
+        describe("with ambiguity margin", () => {
+          it("returns ambiguous lines", () => {
+            const parser = createParser(3);
+            const first = parser.parse("Han");
+            const second = parser.parse(line);
+
+            expect(first).toStrictEqual({
+              columns: null,
+              unprocessedLines: [],
+            });
+            expect(second).toStrictEqual({
+              columns: null,
+              unprocessedLines: [
+                {
+                  lineNumber: 1,
+                  columns: 1,
+                  reason: "too-few-columns",
+                  text: "Han",
+                },
+              ],
+              ambiguousLines: [
+                {
+                  lineNumber: 2,
+                  columns: 4,
+                  reason: "ambiguous",
+                  text: line,
+                },
+              ],
+            });
+          });
+        });
+      });
+    });
+
+    describe("unprocessed lines", () => {
+      const createParser = (enforceMaxLength?: boolean) =>
+        new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({
+              name: "code",
+              unbounded: false,
+              uniqueValues: ["A", "B"],
+            }),
+            createColumnMetadata({
+              count: 2,
+              lengths: { 3: 2 },
+              maxLength: 3,
+              unbounded: true,
+            }),
+            createColumnMetadata({
+              name: "gender",
+              unbounded: false,
+              uniqueValues: ["F", "M"],
+            }),
+          ]),
+          " ",
+          { enforceMaxLength }
+        );
+
+      [
+        { line: "A|F", reason: "too-few-columns" },
+        { line: "X|Ann|F", reason: "no-anchor-match", column: "code" },
+        { line: "A|Ann|X", reason: "no-anchor-match", column: "gender" },
+        { line: "A|Ann|F|X", reason: "leftover-columns" },
+        {
+          line: "A|Ann|Lee|F",
+          reason: "max-length-exceeded",
+          enforceMaxLength: true,
+        },
+      ].forEach(({ line, reason, column, enforceMaxLength }) => {
+        describe(`line: ${line}`, () => {
+          it(`returns ${reason}`, () => {
+            const parser = createParser(enforceMaxLength);
+            parser.parse(line, 10);
+            const actual = parser.parse("B|Lee|M");
+
+            expect(actual).toStrictEqual({
+              columns: ["B", "Lee", "M"],
+              unprocessedLines: [
+                {
+                  lineNumber: 10,
+                  columns: line.split("|").length,
+                  reason,
+                  ...(column && { column }),
+                  text: line,
+                },
+              ],
+            });
+          });
+        });
+      });
+
+      describe("line skipped while merging", () => {
+        it("returns line number and unmatched anchor column of each line", () => {
+          const parser = createParser();
+          parser.parse("X|Ann|F", 3);
+          parser.parse("A|Ann", 5);
+          const actual = parser.parse("M");
+
+          expect(actual).toStrictEqual({
+            columns: ["A", "Ann", "M"],
+            lineNumbers: [5, 6],
+            unprocessedLines: [
+              {
+                lineNumber: 3,
+                columns: 3,
+                reason: "skipped-while-merging",
+                column: "code",
+                text: "X|Ann|F",
+              },
+            ],
+          });
+        });
+      });
+    });
+
+    describe("max merge lines", () => {
+      const createParser = (maxMergeLines: number) =>
+        new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({ unbounded: true }),
+            createColumnMetadata({
+              name: "col-2",
+              unbounded: false,
+              uniqueValues: ["col-2-val-1", "col-2-val-2"],
+            }),
+          ]),
+          " ",
+          { maxMergeLines }
+        );
+
+      [0, 1.5].forEach((maxMergeLines) => {
+        describe(`maxMergeLines: ${maxMergeLines}`, () => {
+          it("throws error", () => {
+            expect(() => createParser(maxMergeLines)).toThrowError(
+              /must be a positive integer/i
+            );
+          });
+        });
+      });
+
+      it("evicts oldest line when the window is exceeded", () => {
+        const parser = createParser(2);
+        const first = parser.parse("val-1");
+        const second = parser.parse("val-2");
+        const third = parser.parse("val-3");
+        const fourth = parser.parse("col-2-val-1");
+
+        expect(first).toStrictEqual({ columns: null, unprocessedLines: [] });
+        expect(second).toStrictEqual({ columns: null, unprocessedLines: [] });
+        expect(third).toStrictEqual({
+          columns: null,
+          unprocessedLines: [
+            {
+              lineNumber: 1,
+              columns: 1,
+              reason: "merge-window-exceeded",
+              text: "val-1",
+            },
+          ],
+        });
+        expect(fourth).toStrictEqual({
+          columns: ["val-3", "col-2-val-1"],
+          lineNumbers: [3, 4],
+          unprocessedLines: [
+            {
+              lineNumber: 2,
+              columns: 1,
+              reason: "merge-window-exceeded",
+              text: "val-2",
+            },
+          ],
+        });
+      });
+
+      it("keeps unmatched anchor column of evicted line", () => {
+        const parser = createParser(1);
+        parser.parse("val-1|val-2");
+        const actual = parser.parse("val-3");
+
+        expect(actual).toStrictEqual({
+          columns: null,
+          unprocessedLines: [
+            {
+              lineNumber: 1,
+              columns: 2,
+              reason: "merge-window-exceeded",
+              column: "col-2",
+              text: "val-1|val-2",
+            },
+          ],
+        });
+      });
+    });
+
+    describe("max record lines", () => {
+      it("rejects record when a quote isn't closed", () => {
+        const parser = new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({ unbounded: true }),
+            createColumnMetadata({
+              unbounded: false,
+              uniqueValues: ["col-2-val-1", "col-2-val-2"],
+            }),
+          ]),
+          " ",
+          { maxRecordLines: 2, quote: '"' }
+        );
+        const first = parser.parse('"val-1|col-2-val-1');
+        const second = parser.parse("val-2|col-2-val-2");
+        const third = parser.parse("val-3|col-2-val-1");
+
+        expect(first).toStrictEqual({ columns: null, unprocessedLines: [] });
+        expect(second).toStrictEqual({
+          columns: null,
+          unprocessedLines: [
+            {
+              lineNumber: 1,
+              columns: 1,
+              reason: "record-lines-exceeded",
+              text: '"val-1|col-2-val-1\nval-2|col-2-val-2',
+            },
+          ],
+        });
+        expect(third).toStrictEqual({
+          columns: ["val-3", "col-2-val-1"],
+          unprocessedLines: [],
+        });
+      });
+    });
+
+    describe("audit", () => {
+      const parser = () =>
+        new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({
+              name: "code",
+              unbounded: false,
+              uniqueValues: ["A", "B"],
+            }),
+            createColumnMetadata({ name: "name", unbounded: true }),
+            createColumnMetadata({
+              name: "gender",
+              unbounded: false,
+              uniqueValues: ["F", "M"],
+            }),
+          ]),
+          " ",
+          { audit: true }
+        );
+
+      describe("merged columns", () => {
+        it("returns repair", () => {
+          const actual = parser().parse("A|Ann|Lee|F");
+
+          expect(actual).toStrictEqual({
+            columns: ["A", "Ann Lee", "F"],
+            unprocessedLines: [],
+            repair: {
+              lineNumbers: [1],
+              tokens: ["A", "Ann", "Lee", "F"],
+              merges: [{ column: "name", tokens: [1, 2] }],
+              anchors: [
+                { column: "code", token: 0 },
+                { column: "gender", token: 3 },
+              ],
+            },
+          });
+        });
+      });
+
+      describe("lines merged without merged columns", () => {
+        it("returns repair", () => {
+          const instance = parser();
+          instance.parse("B|Lee", 4);
+          const actual = instance.parse("M", 5);
+
+          expect(actual).toStrictEqual({
+            columns: ["B", "Lee", "M"],
+            lineNumbers: [4, 5],
+            unprocessedLines: [],
+            repair: {
+              lineNumbers: [4, 5],
+              tokens: ["B", "Lee", "M"],
+              merges: [],
+              anchors: [
+                { column: "code", token: 0 },
+                { column: "gender", token: 2 },
+              ],
+            },
+          });
+        });
+      });
+
+      describe("quoted value spans lines", () => {
+        it("returns line numbers of record", () => {
+          const instance = new LineParser(
+            "|",
+            new FileMetadata([
+              createColumnMetadata({ name: "name", unbounded: true }),
+              createColumnMetadata({
+                name: "gender",
+                unbounded: false,
+                uniqueValues: ["F", "M"],
+              }),
+            ]),
+            " ",
+            { audit: true, quote: '"' }
+          );
+          instance.parse('"Ann');
+          const actual = instance.parse('Lee"|Smith|F');
+
+          expect(actual.repair).toStrictEqual({
+            lineNumbers: [1, 2],
+            tokens: ["Ann\nLee", "Smith", "F"],
+            merges: [{ column: "name", tokens: [0, 1] }],
+            anchors: [{ column: "gender", token: 2 }],
+          });
+        });
+      });
+
+      describe("columns not repaired", () => {
+        it("omits repair", () => {
+          const actual = parser().parse("B|Lee|M");
+
+          expect(actual).toStrictEqual({
+            columns: ["B", "Lee", "M"],
+            unprocessedLines: [],
+          });
+        });
+      });
+    });
+
+    describe("length statistics", () => {
+      const createParser = (enforceMaxLength?: boolean) =>
+        new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({
+              characterClasses: ["letter", "whitespace"],
+              count: 10,
+              lengths: { 7: 10 },
+              maxLength: 7,
+              unbounded: true,
+            }),
+            createColumnMetadata({
+              characterClasses: ["letter", "whitespace"],
+              count: 10,
+              lengths: { 3: 10 },
+              maxLength: 3,
+              unbounded: true,
+            }),
+            createColumnMetadata({
+              unbounded: false,
+              uniqueValues: ["F", "M"],
+            }),
+          ]),
+          " ",
+          { enforceMaxLength }
+        );
+
+      describe("extra columns fit several columns", () => {
+        it("merges into column with typical length", () => {
+          const actual = createParser().parse("Ann|Lee|Red|F");
+
+          expect(actual).toStrictEqual({
+            columns: ["Ann Lee", "Red", "F"],
+            unprocessedLines: [],
+          });
+        });
+      });
+
+      describe("merges exceed max length", () => {
+        const line = "Ann Lee|Red|Roe|F";
+
+        describe("without enforceMaxLength", () => {
+          it("returns best candidate", () => {
+            const actual = createParser().parse(line);
+
+            expect(actual).toStrictEqual({
+              columns: ["Ann Lee Red", "Roe", "F"],
+              unprocessedLines: [],
+            });
+          });
+        });
+
+        describe("with enforceMaxLength", () => {
+          it("returns no columns", () => {
+            const actual = createParser(true).parse(line);
+
+            expect(actual).toStrictEqual({
+              columns: null,
+              unprocessedLines: [],
+            });
+          });
+        });
+      });
+    });
+
+    describe("typed anchor column", () => {
+      it("merges columns before value of the same type", () => {
+        const parser = new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({ unbounded: true }),
+            createColumnMetadata({ unbounded: true, valueTypes: ["date"] }),
+            createColumnMetadata({ unbounded: true }),
+          ])
+        );
+
+        const actual = parser.parse("val-1|val-2|2023-12-31|val-3|val-4");
+
+        expect(actual).toStrictEqual({
+          columns: ["val-1 val-2", "2023-12-31", "val-3 val-4"],
+          unprocessedLines: [],
+        });
+      });
+    });
+
+    describe("pattern anchor column", () => {
+      it("merges columns before value matching the pattern", () => {
+        const parser = new LineParser(
+          "|",
+          new FileMetadata([
+            createColumnMetadata({ unbounded: true }),
+            createColumnMetadata({ unbounded: true }).setPattern(
+              /^[A-Z]{2}\d{6}$/
+            ),
+            createColumnMetadata({ unbounded: true }),
+          ])
+        );
+
+        const actual = parser.parse("val-1|val-2|AB123456|val-3|val-4");
+
+        expect(actual).toStrictEqual({
+          columns: ["val-1 val-2", "AB123456", "val-3 val-4"],
+          unprocessedLines: [],
+        });
+      });
+    });
+  });
+
+  describe("flush", () => {
+    let parser: LineParser;
+    beforeEach(() => {
+      parser = new LineParser(
+        "|",
+        new FileMetadata([
+          createColumnMetadata({ unbounded: true }),
+          createColumnMetadata({
+            unbounded: false,
+            uniqueValues: ["col-2-val-1", "col-2-val-2"],
+          }),
+        ]),
+        " ",
+        { quote: '"' }
+      );
+    });
+
+    describe("no pending lines", () => {
+      it("returns nothing", () => {
+        parser.parse("val-1|col-2-val-1");
+
+        expect(parser.flush()).toStrictEqual({
+          columns: null,
+          unprocessedLines: [],
+        });
+      });
+    });
+
+    describe("pending lines", () => {
+      it("returns them as unprocessed", () => {
+        parser.parse("val-1", 4);
+        parser.parse("val-2", 5);
+
+        const actual = parser.flush();
+
+        expect(actual).toStrictEqual({
+          columns: null,
+          unprocessedLines: [
+            {
+              lineNumber: 4,
+              columns: 1,
+              reason: "too-few-columns",
+              text: "val-1",
+            },
+            {
+              lineNumber: 5,
+              columns: 1,
+              reason: "too-few-columns",
+              text: "val-2",
+            },
+          ],
+        });
+        expect(parser.flush()).toStrictEqual({
+          columns: null,
+          unprocessedLines: [],
+        });
+      });
+    });
+
+    describe("quote not closed", () => {
+      it("parses pending record", () => {
+        const first = parser.parse('val-1|"col-2-val-2');
+        const actual = parser.flush();
+
+        expect(first).toStrictEqual({ columns: null, unprocessedLines: [] });
+        expect(actual).toStrictEqual({
+          columns: ["val-1", "col-2-val-2"],
+          unprocessedLines: [],
+        });
+      });
+    });
   });
 });
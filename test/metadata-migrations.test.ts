@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  METADATA_VERSION,
+  migrateMetadataJson,
+} from "../src/metadata-migrations.js";
+
+describe("metadata-migrations", () => {
+  describe("migrateMetadataJson", () => {
+    describe("version 1", () => {
+      it("drops column cardinalities and sets version", () => {
+        const actual = migrateMetadataJson({
+          columns: [{ cardinality: 3, name: "col" }],
+        });
+
+        expect(actual).toStrictEqual({
+          columns: [{ name: "col" }],
+          version: METADATA_VERSION,
+        });
+      });
+    });
+
+    describe("version 2", () => {
+      [
+        { numberOfColumns: null, header: true },
+        { numberOfColumns: 2, header: false },
+      ].forEach(({ header, numberOfColumns }) => {
+        describe(`numberOfColumns: ${numberOfColumns}`, () => {
+          it(`sets header: ${header}`, () => {
+            const actual = migrateMetadataJson({
+              columns: [],
+              source: { file: {}, parameters: { numberOfColumns } },
+              version: 2,
+            });
+
+            expect(actual).toStrictEqual({
+              columns: [],
+              source: {
+                file: {},
+                parameters: {
+                  columnNames: null,
+                  delimiterRegex: false,
+                  header,
+                  maxRecordLines: null,
+                  maxRelativeCardinality: null,
+                  numberOfColumns,
+                  sample: null,
+                },
+              },
+              version: METADATA_VERSION,
+            });
+          });
+        });
+      });
+    });
+
+    describe("version 4", () => {
+      it("sets sample: null", () => {
+        const actual = migrateMetadataJson({
+          columns: [],
+          source: { file: {}, parameters: { quote: null } },
+          version: 4,
+        });
+
+        expect(actual).toStrictEqual({
+          columns: [],
+          source: {
+            file: {},
+            parameters: {
+              maxRecordLines: null,
+              maxRelativeCardinality: null,
+              quote: null,
+              sample: null,
+            },
+          },
+          version: METADATA_VERSION,
+        });
+      });
+    });
+
+    describe("version 5", () => {
+      it("sets maxRelativeCardinality: null and the maxCardinality of the columns", () => {
+        const actual = migrateMetadataJson({
+          columns: [{ name: "col" }],
+          source: { file: {}, parameters: { maxCardinality: 3 } },
+          version: 5,
+        });
+
+        expect(actual).toStrictEqual({
+          columns: [{ maxCardinality: 3, name: "col" }],
+          source: {
+            file: {},
+            parameters: {
+              maxCardinality: 3,
+              maxRecordLines: null,
+              maxRelativeCardinality: null,
+            },
+          },
+          version: METADATA_VERSION,
+        });
+      });
+    });
+
+    describe("version 6", () => {
+      it("sets maxRecordLines: null", () => {
+        const actual = migrateMetadataJson({
+          columns: [],
+          source: { file: {}, parameters: { quote: null } },
+          version: 6,
+        });
+
+        expect(actual).toStrictEqual({
+          columns: [],
+          source: {
+            file: {},
+            parameters: { maxRecordLines: null, quote: null },
+          },
+          version: METADATA_VERSION,
+        });
+      });
+    });
+
+    describe("current version", () => {
+      it("returns same object", () => {
+        const obj = { columns: [], version: METADATA_VERSION };
+
+        expect(migrateMetadataJson(obj)).toBe(obj);
+      });
+    });
+
+    describe("newer version", () => {
+      it("throws error", () => {
+        expect(() =>
+          migrateMetadataJson({ version: METADATA_VERSION + 1 })
+        ).toThrowError(/unsupported metadata version/i);
+      });
+    });
+
+    describe("invalid version", () => {
+      it("throws error", () => {
+        expect(() => migrateMetadataJson({ version: "1" })).toThrowError(
+          /version.+expected an integer of at least 1/i
+        );
+      });
+    });
+  });
+});
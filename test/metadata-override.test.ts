@@ -0,0 +1,181 @@
+import { writeFile } from "node:fs/promises";
+import { afterAll, describe, expect, it } from "vitest";
+
+import { FileMetadata } from "../src/file-metadata.js";
+import {
+  applyMetadataOverrides,
+  readMetadataOverrides,
+} from "../src/metadata-override.js";
+import { createColumnMetadata, tryDeleteFile } from "./utils.js";
+
+describe("metadata-override", () => {
+  const overridesFilePath = ".metadata-override.test.json";
+
+  afterAll(async () => {
+    await tryDeleteFile(overridesFilePath);
+  });
+
+  describe("readMetadataOverrides", () => {
+    it("returns overrides", async () => {
+      const overrides = [
+        { column: "hobbies", unbounded: true, name: "interests" },
+        { column: 2, addValues: ["Grey"], removeValues: ["Dark"] },
+        { column: "code", anchor: false },
+      ];
+      await writeFile(overridesFilePath, JSON.stringify(overrides));
+
+      const actual = await readMetadataOverrides(overridesFilePath);
+
+      expect(actual).toStrictEqual(overrides);
+    });
+
+    [
+      { overrides: {}, error: /field: \(root\)\. expected an array/i },
+      { overrides: [null], error: /field: \[0\]\. expected an object/i },
+      { overrides: [{ name: "a" }], error: /field: \[0\]\.column\./i },
+      {
+        overrides: [{ column: 0, name: "a" }],
+        error: /field: \[0\]\.column\./i,
+      },
+      {
+        overrides: [{ column: 1 }],
+        error: /override: \[0\]\. it must override at least one/i,
+      },
+      {
+        overrides: [{ column: 1, other: 1 }],
+        error: /unknown field: \[0\]\.other/i,
+      },
+      {
+        overrides: [{ column: 1, name: "" }],
+        error: /field: \[0\]\.name\. expected a non-empty string/i,
+      },
+      {
+        overrides: [{ column: 1, unbounded: 1 }],
+        error: /field: \[0\]\.unbounded\. expected a boolean/i,
+      },
+      {
+        overrides: [
+          { column: 1, anchor: false },
+          { column: 2, anchor: false },
+          { column: 3, addValues: ["a", 1] },
+        ],
+        error: /field: \[2\]\.addValues\[1\]\. expected a string/i,
+      },
+      {
+        overrides: [{ column: 1, removeValues: "a" }],
+        error: /field: \[0\]\.removeValues\. expected an array/i,
+      },
+      {
+        overrides: [{ column: 1, unbounded: true, addValues: ["a"] }],
+        error: /override: \[0\]\. values .+unbounded column/i,
+      },
+      {
+        overrides: [{ column: 1, anchor: true }],
+        error: /field: \[0\]\.anchor\. expected one of false/i,
+      },
+    ].forEach(({ overrides, error }) => {
+      describe(`overrides: ${JSON.stringify(overrides)}`, () => {
+        it("throws error", async () => {
+          await writeFile(overridesFilePath, JSON.stringify(overrides));
+
+          await expect(
+            readMetadataOverrides(overridesFilePath)
+          ).rejects.toThrowError(error);
+        });
+      });
+    });
+  });
+
+  describe("applyMetadataOverrides", () => {
+    const createMetadata = () =>
+      new FileMetadata([
+        createColumnMetadata({
+          name: "name",
+          unbounded: false,
+          uniqueValues: ["Darth Vader", "Luke Skywalker"],
+        }),
+        createColumnMetadata({
+          name: "side",
+          unbounded: false,
+          uniqueValues: ["Dark", "Light"],
+        }),
+        createColumnMetadata({ name: "hobbies", unbounded: true }),
+      ]);
+
+    it("overrides a copy of the metadata", () => {
+      const metadata = createMetadata();
+
+      const actual = applyMetadataOverrides(metadata, [
+        { column: "name", unbounded: true, name: "character" },
+        { column: 2, addValues: ["Grey"], removeValues: ["Dark"] },
+        { column: "hobbies", unbounded: false, addValues: ["Chess"] },
+      ]);
+
+      expect(actual.columns.map((x) => x.toJSON())).toMatchObject([
+        { name: "character", unbounded: true, uniqueValues: [] },
+        { name: "side", unbounded: false, uniqueValues: ["Light", "Grey"] },
+        { name: "hobbies", unbounded: false, uniqueValues: ["Chess"] },
+      ]);
+      expect(metadata.toJSON()).toStrictEqual(createMetadata().toJSON());
+    });
+
+    it("excludes columns from the anchor columns", () => {
+      const actual = applyMetadataOverrides(createMetadata(), [
+        { column: "side", anchor: false },
+      ]);
+
+      expect(actual.anchorColumns).toMatchObject([
+        { previousColumns: 0, metadata: { name: "name" } },
+        { previousColumns: 2 },
+      ]);
+    });
+
+    it("refers to the columns by their names before renaming them", () => {
+      const actual = applyMetadataOverrides(createMetadata(), [
+        { column: "name", name: "side" },
+        { column: "side", name: "name" },
+      ]);
+
+      expect(actual.columns.map((x) => x.name)).toStrictEqual([
+        "side",
+        "name",
+        "hobbies",
+      ]);
+    });
+
+    [
+      { column: 4, error: /unknown column in override: 4/i },
+      { column: "other", error: /unknown column in override: other/i },
+    ].forEach(({ column, error }) => {
+      describe(`unknown column: ${column}`, () => {
+        it("throws error", () => {
+          expect(() =>
+            applyMetadataOverrides(createMetadata(), [
+              { column, anchor: false },
+            ])
+          ).toThrowError(error);
+        });
+      });
+    });
+
+    describe("repeated names", () => {
+      it("throws error", () => {
+        expect(() =>
+          applyMetadataOverrides(createMetadata(), [
+            { column: "hobbies", name: "side" },
+          ])
+        ).toThrowError(/side is repeated/i);
+      });
+    });
+
+    describe("values of an unbounded column", () => {
+      it("throws error", () => {
+        expect(() =>
+          applyMetadataOverrides(createMetadata(), [
+            { column: "hobbies", addValues: ["Chess"] },
+          ])
+        ).toThrowError(/column hobbies.+unbounded column/i);
+      });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import { FileMetadata } from "../src/file-metadata.js";
+import { refineMetadata } from "../src/metadata-refinement.js";
+import { BROKEN_STAR_WARS_CHARACTERS } from "./test-files/index.js";
+
+describe("metadata-refinement", () => {
+  describe("refineMetadata", () => {
+    const input = {
+      delimiter: "|",
+      filePath: BROKEN_STAR_WARS_CHARACTERS,
+      maxCardinality: 2,
+    };
+
+    it("rebuilds the metadata from the repaired rows", async () => {
+      const metadata = await FileMetadata.create(input);
+
+      const actual = await refineMetadata(metadata, {
+        ...input,
+        iterations: 2,
+      });
+
+      // "Darth|Sidious|Dark" and "Han Solo", "Light" are repaired
+      expect(actual.metadata.columns.map((x) => x.toJSON())).toMatchObject([
+        { name: "name", count: 6, lengths: { 8: 1, 11: 2, 13: 1, 14: 2 } },
+        { name: "force_alignment", count: 6, uniqueValues: ["Dark", "Light"] },
+      ]);
+      expect(actual.anchorChanges).toStrictEqual([
+        { iteration: 2, anchors: ["force_alignment"], added: [], removed: [] },
+      ]);
+    });
+
+    describe("anchor columns don't change", () => {
+      it("stops iterating", async () => {
+        const metadata = await FileMetadata.create(input);
+
+        const actual = await refineMetadata(metadata, {
+          ...input,
+          iterations: 5,
+        });
+
+        expect(actual.anchorChanges).toHaveLength(1);
+      });
+    });
+
+    describe("iterations: 1", () => {
+      it("returns the metadata", async () => {
+        const metadata = await FileMetadata.create(input);
+
+        const actual = await refineMetadata(metadata, {
+          ...input,
+          iterations: 1,
+        });
+
+        expect(actual).toStrictEqual({ metadata, anchorChanges: [] });
+      });
+    });
+
+    describe("with rules", () => {
+      it("applies the rules in each iteration", async () => {
+        const metadata = await FileMetadata.create(input);
+
+        const actual = await refineMetadata(metadata, {
+          ...input,
+          iterations: 2,
+          rules: [{ column: "name", pattern: "^[A-Z]" }],
+        });
+
+        expect(actual.anchorChanges).toStrictEqual([
+          {
+            iteration: 2,
+            anchors: ["name", "force_alignment"],
+            added: ["name"],
+            removed: [],
+          },
+        ]);
+      });
+    });
+
+    describe("with overrides", () => {
+      it("applies the overrides in each iteration, after the rules", async () => {
+        const metadata = await FileMetadata.create(input);
+
+        const actual = await refineMetadata(metadata, {
+          ...input,
+          iterations: 2,
+          overrides: [
+            { column: "name", name: "character" },
+            { column: "force_alignment", anchor: false },
+          ],
+          rules: [{ column: "name", pattern: "^[A-Z]" }],
+        });
+
+        expect(actual.metadata.columns.map((x) => x.name)).toStrictEqual([
+          "character",
+          "force_alignment",
+        ]);
+        expect(actual.anchorChanges).toStrictEqual([
+          {
+            iteration: 2,
+            anchors: ["character"],
+            added: ["character"],
+            removed: [],
+          },
+        ]);
+      });
+    });
+  });
+});
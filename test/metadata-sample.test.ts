@@ -0,0 +1,153 @@
+import { basename } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import {
+  GetSampleLinesInput,
+  getSampleLines,
+  parseMetadataSample,
+} from "../src/metadata-sample.js";
+import {
+  BOM_STAR_WARS_CHARACTERS,
+  BROKEN_STAR_WARS_CHARACTERS,
+  CRLF_STAR_WARS_CHARACTERS,
+  UTF_16BE_BOM,
+} from "./test-files/index.js";
+
+describe("metadata-sample", () => {
+  describe("parseMetadataSample", () => {
+    [
+      { value: "first:10", expected: { strategy: "first", size: 10 } },
+      { value: "reservoir:1", expected: { strategy: "reservoir", size: 1 } },
+      { value: "stride:200", expected: { strategy: "stride", size: 200 } },
+      { value: "stride:0", expected: undefined },
+      { value: "random:10", expected: undefined },
+      { value: "first", expected: undefined },
+      { value: "first:-1", expected: undefined },
+    ].forEach(({ value, expected }) => {
+      describe(`value: ${value}`, () => {
+        it(`returns ${JSON.stringify(expected)}`, () => {
+          expect(parseMetadataSample(value)).toStrictEqual(expected);
+        });
+      });
+    });
+  });
+
+  describe("getSampleLines", () => {
+    const getLines = async (input: GetSampleLinesInput) => {
+      const result: string[] = [];
+      for await (const line of getSampleLines(input)) {
+        result.push(line);
+      }
+
+      return result;
+    };
+
+    const allLines = [
+      "name|force_alignment",
+      "Darth Vader|Dark",
+      "Luke Skywalker|Light",
+      "Obi Wan Kenobi|Light",
+      "Darth|Sidious|Dark",
+      "Han Solo",
+      "Light",
+      "Jar Jar",
+      "Leia Organa|Light",
+    ];
+
+    describe("first", () => {
+      it("returns leading lines and first lines", async () => {
+        const actual = await getLines({
+          filePath: BROKEN_STAR_WARS_CHARACTERS,
+          leadingLines: 1,
+          sample: { strategy: "first", size: 2 },
+        });
+
+        expect(actual).toStrictEqual(allLines.slice(0, 3));
+      });
+    });
+
+    describe("reservoir", () => {
+      it("returns leading lines and sampled lines in file order", async () => {
+        const input: GetSampleLinesInput = {
+          filePath: BROKEN_STAR_WARS_CHARACTERS,
+          leadingLines: 1,
+          sample: { strategy: "reservoir", size: 3 },
+        };
+
+        const actual = await getLines(input);
+
+        expect(actual.length).toBe(4);
+        expect(actual[0]).toBe(allLines[0]);
+        expect(actual.slice(1)).toStrictEqual(
+          allLines.slice(1).filter((x) => actual.slice(1).includes(x))
+        );
+        expect(await getLines(input)).toStrictEqual(actual);
+      });
+
+      describe("sample larger than file", () => {
+        it("returns all lines", async () => {
+          const actual = await getLines({
+            filePath: BROKEN_STAR_WARS_CHARACTERS,
+            sample: { strategy: "reservoir", size: 20 },
+          });
+
+          expect(actual).toStrictEqual(allLines);
+        });
+      });
+    });
+
+    describe("stride", () => {
+      it("returns leading lines and lines at evenly spaced offsets", async () => {
+        const actual = await getLines({
+          filePath: BROKEN_STAR_WARS_CHARACTERS,
+          leadingLines: 1,
+          sample: { strategy: "stride", size: 3 },
+        });
+
+        expect(actual).toStrictEqual([
+          "name|force_alignment",
+          "Darth Vader|Dark",
+          "Darth|Sidious|Dark",
+          "Light",
+        ]);
+      });
+
+      describe("sample larger than file", () => {
+        it("returns each line once", async () => {
+          const actual = await getLines({
+            filePath: BROKEN_STAR_WARS_CHARACTERS,
+            sample: { strategy: "stride", size: 100 },
+          });
+
+          expect(actual).toStrictEqual(allLines);
+        });
+      });
+
+      [
+        {
+          input: { filePath: CRLF_STAR_WARS_CHARACTERS },
+          expected: ["name|force_alignment", "Luke", "Leia Organa|Light"],
+        },
+        {
+          input: { filePath: BOM_STAR_WARS_CHARACTERS },
+          expected: ["name|force_alignment", "Luke Skywalker|Light"],
+        },
+        {
+          input: { encoding: "utf-16be", filePath: UTF_16BE_BOM },
+          expected: ["English", "Español"],
+        },
+      ].forEach(({ input, expected }) => {
+        describe(`file: ${basename(input.filePath)}`, () => {
+          it("decodes lines", async () => {
+            const actual = await getLines({
+              ...(input as GetSampleLinesInput),
+              sample: { strategy: "stride", size: expected.length },
+            });
+
+            expect(actual).toStrictEqual(expected);
+          });
+        });
+      });
+    });
+  });
+});
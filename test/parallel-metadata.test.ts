@@ -0,0 +1,129 @@
+import { writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+
+import { FileMetadata } from "../src/file-metadata.js";
+import { buildMetadataInParallel } from "../src/parallel-metadata.js";
+import {
+  BOM_STAR_WARS_CHARACTERS,
+  BROKEN_STAR_WARS_CHARACTERS,
+  CRLF_STAR_WARS_CHARACTERS,
+  STAR_WARS_CHARACTERS,
+} from "./test-files/index.js";
+import { tryDeleteFile } from "./utils.js";
+
+describe("parallel-metadata", () => {
+  const inputFilePath = ".parallel-metadata.test.input.txt";
+
+  afterAll(async () => {
+    await tryDeleteFile(inputFilePath);
+  });
+
+  describe("buildMetadataInParallel", () => {
+    [
+      BOM_STAR_WARS_CHARACTERS,
+      BROKEN_STAR_WARS_CHARACTERS,
+      CRLF_STAR_WARS_CHARACTERS,
+      STAR_WARS_CHARACTERS,
+    ].forEach((filePath) => {
+      describe(`file: ${basename(filePath)}`, () => {
+        [2, 3].forEach((workers) => {
+          describe(`workers: ${workers}`, () => {
+            it("builds the same metadata as a single thread", async () => {
+              const input = { delimiter: "|", filePath, maxCardinality: 5 };
+
+              const actual = await buildMetadataInParallel({
+                ...input,
+                workers,
+              });
+
+              const expected = await FileMetadata.create(input);
+              expect(actual.toJSON()).toStrictEqual(expected.toJSON());
+            });
+          });
+        });
+      });
+    });
+
+    describe("union of the ranges exceeds the max cardinality", () => {
+      it("marks the column as unbounded", async () => {
+        const actual = await buildMetadataInParallel({
+          delimiter: "|",
+          filePath: STAR_WARS_CHARACTERS,
+          maxCardinality: 2,
+          workers: 3,
+        });
+
+        expect(actual.columns.map((x) => x.toJSON())).toMatchObject([
+          { name: "name", count: 3, unbounded: true, uniqueValues: [] },
+          {
+            name: "force_alignment",
+            count: 3,
+            unbounded: false,
+            uniqueValues: ["Dark", "Light"],
+          },
+        ]);
+      });
+    });
+
+    describe("max relative cardinality", () => {
+      it("applies it to the whole file rather than each range", async () => {
+        const input = {
+          delimiter: "|",
+          filePath: STAR_WARS_CHARACTERS,
+          maxCardinality: 5,
+          maxRelativeCardinality: 70,
+        };
+
+        const actual = await buildMetadataInParallel({ ...input, workers: 3 });
+
+        const expected = await FileMetadata.create(input);
+        expect(actual.toJSON()).toStrictEqual(expected.toJSON());
+        expect(actual.columns.map((x) => x.unbounded)).toStrictEqual([
+          true,
+          false,
+        ]);
+      });
+    });
+
+    describe("quote not closed within max record lines", () => {
+      it("builds the same metadata as a single thread", async () => {
+        const rows = Array.from({ length: 40 }, (_, i) => `name ${i}|Light`);
+        await writeFile(
+          inputFilePath,
+          ["name|force_alignment", '"Darth Vader|Dark', ...rows, ""].join("\n")
+        );
+        const input = {
+          delimiter: "|",
+          filePath: inputFilePath,
+          maxCardinality: 5,
+          maxRecordLines: 5,
+          quote: '"',
+        };
+
+        const actual = await buildMetadataInParallel({ ...input, workers: 2 });
+
+        const expected = await FileMetadata.create(input);
+        expect(actual.toJSON()).toStrictEqual(expected.toJSON());
+        expect(actual.columns[0].count).toBe(36);
+      });
+    });
+
+    describe("column names", () => {
+      it("uses the column names in every range", async () => {
+        const actual = await buildMetadataInParallel({
+          columnNames: ["character", "side"],
+          delimiter: "|",
+          filePath: STAR_WARS_CHARACTERS,
+          maxCardinality: 5,
+          workers: 2,
+        });
+
+        expect(actual.columns.map((x) => x.toJSON())).toMatchObject([
+          { name: "character", count: 4 },
+          { name: "side", count: 4 },
+        ]);
+      });
+    });
+  });
+});
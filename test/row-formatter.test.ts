@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { formatRow } from "../src/row-formatter.js";
+
+describe("row-formatter", () => {
+  describe("formatRow", () => {
+    const values = ["Sky|walker\nLuke", 'The "Chosen" One', "Light"];
+
+    describe("with quote", () => {
+      it("quotes values with delimiters, quotes or line breaks", () => {
+        const actual = formatRow(values, { delimiter: "|", quote: '"' });
+
+        expect(actual).toBe('"Sky|walker\nLuke"|"The ""Chosen"" One"|Light');
+      });
+    });
+
+    describe("without quote", () => {
+      it("replaces delimiters and line breaks", () => {
+        const actual = formatRow(values, {
+          delimiter: "|",
+          delimiterReplacement: "_",
+          newlineReplacement: " / ",
+        });
+
+        expect(actual).toBe('Sky_walker / Luke|The "Chosen" One|Light');
+      });
+
+      it("replaces line breaks with the delimiter replacement by default", () => {
+        const actual = formatRow(["a\r\nb", "c"], { delimiter: "\t" });
+
+        expect(actual).toBe("a b\tc");
+      });
+    });
+  });
+});
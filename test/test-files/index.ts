@@ -17,3 +17,57 @@ export const THREE_LINES = join(__dirname, "three-lines.txt");
 
 /** A file with Star Wars characters and their force alignments. */
 export const STAR_WARS_CHARACTERS = join(__dirname, "star-wars-characters.txt");
+
+/** Same as {@link STAR_WARS_CHARACTERS} but with lines that have too many or too few columns. */
+export const BROKEN_STAR_WARS_CHARACTERS = join(
+  __dirname,
+  "broken-star-wars-characters.txt"
+);
+
+/** Same as {@link STAR_WARS_CHARACTERS} but with quoted names that contain delimiters, quotes and new lines. */
+export const QUOTED_STAR_WARS_CHARACTERS = join(
+  __dirname,
+  "quoted-star-wars-characters.txt"
+);
+
+/** A file with Star Wars characters' first names, last names and force alignments, and a line with an extra column. */
+export const AMBIGUOUS_STAR_WARS_CHARACTERS = join(
+  __dirname,
+  "ambiguous-star-wars-characters.txt"
+);
+
+/** Same as {@link STAR_WARS_CHARACTERS} but separated by commas, with a quoted name that contains a comma and a `|`. */
+export const COMMA_SEPARATED_STAR_WARS_CHARACTERS = join(
+  __dirname,
+  "comma-separated-star-wars-characters.txt"
+);
+
+/** A file that splits into the same number of columns with either `,` or `|`. */
+export const AMBIGUOUS_DELIMITER = join(__dirname, "ambiguous-delimiter.txt");
+
+/** Same as {@link STAR_WARS_CHARACTERS} but with a UTF-8 byte order mark. */
+export const BOM_STAR_WARS_CHARACTERS = join(
+  __dirname,
+  "bom-star-wars-characters.txt"
+);
+
+/**
+ * A file with `"windows-1252"` encoding and characters that `"latin1"` doesn't have, e.g. `€`.
+ * @see https://en.wikipedia.org/wiki/Windows-1252
+ */
+export const WINDOWS_1252 = join(__dirname, "windows-1252.txt");
+
+/** A file with `"utf-16be"` encoding and a byte order mark. */
+export const UTF_16BE_BOM = join(__dirname, "utf-16be-bom.txt");
+
+/** Same as {@link STAR_WARS_CHARACTERS} but with CRLF line endings, and a row broken across lines. */
+export const CRLF_STAR_WARS_CHARACTERS = join(
+  __dirname,
+  "crlf-star-wars-characters.txt"
+);
+
+/** Same as {@link STAR_WARS_CHARACTERS} but truncated: the last lines are missing their force alignments. */
+export const TRUNCATED_STAR_WARS_CHARACTERS = join(
+  __dirname,
+  "truncated-star-wars-characters.txt"
+);
@@ -0,0 +1,291 @@
+import { describe, expect, it } from "vitest";
+
+import { Tokenizer } from "../src/tokenizer.js";
+
+describe("tokenizer", () => {
+  describe("Tokenizer", () => {
+    describe("constructor", () => {
+      describe("empty delimiter", () => {
+        it("throws error", () => {
+          expect(() => new Tokenizer({ delimiter: "" })).toThrowError(
+            /delimiter must not be empty/i
+          );
+        });
+      });
+
+      describe("delimiter matches empty string", () => {
+        it("throws error", () => {
+          expect(() => new Tokenizer({ delimiter: /\t*/ })).toThrowError(
+            /delimiter must not be empty/i
+          );
+        });
+      });
+
+      describe("delimiter regex matches escape", () => {
+        it("throws error", () => {
+          expect(
+            () => new Tokenizer({ delimiter: /[|\\]/, escape: "\\" })
+          ).toThrowError(/escape character must be different/i);
+        });
+      });
+
+      describe("escape same as quote", () => {
+        it("throws error", () => {
+          expect(
+            () => new Tokenizer({ delimiter: "|", escape: '"', quote: '"' })
+          ).toThrowError(/escape character must be different/i);
+        });
+      });
+
+      [0, 1.5].forEach((maxRecordLines) => {
+        describe(`maxRecordLines: ${maxRecordLines}`, () => {
+          it("throws error", () => {
+            expect(
+              () => new Tokenizer({ delimiter: "|", maxRecordLines })
+            ).toThrowError(/maximum number of record lines/i);
+          });
+        });
+      });
+    });
+
+    describe("tokenize", () => {
+      describe("without quote", () => {
+        it("splits by delimiter", () => {
+          const tokenizer = new Tokenizer({ delimiter: "|" });
+
+          const actual = tokenizer.tokenize('"a|b"||c');
+
+          expect(actual).toStrictEqual({
+            text: '"a|b"||c',
+            tokens: ['"a', 'b"', "", "c"],
+            delimiters: ["|", "|", "|"],
+          });
+        });
+      });
+
+      describe("with quote", () => {
+        const tokenizer = new Tokenizer({ delimiter: "|", quote: '"' });
+
+        [
+          { line: "a|b|c", tokens: ["a", "b", "c"] },
+          { line: '"a|b"|c', tokens: ["a|b", "c"] },
+          { line: 'a|"b|c"', tokens: ["a", "b|c"] },
+          { line: '"a""b"|""', tokens: ['a"b', ""] },
+          { line: 'a"b|c"', tokens: ['a"b', 'c"'] },
+          { line: '"a"b|c', tokens: ["ab", "c"] },
+          { line: "", tokens: [""] },
+        ].forEach(({ line, tokens }) => {
+          describe(`line: ${line}`, () => {
+            it("returns unquoted values", () => {
+              const actual = tokenizer.tokenize(line);
+
+              expect(actual).toStrictEqual({
+                text: line,
+                tokens,
+                delimiters: tokens.slice(1).map(() => "|"),
+              });
+            });
+          });
+        });
+
+        describe("quoted value spans lines", () => {
+          it("returns record once the quote is closed", () => {
+            const tokenizer = new Tokenizer({ delimiter: "|", quote: '"' });
+
+            const first = tokenizer.tokenize('a|"b');
+            const second = tokenizer.tokenize("c");
+            const third = tokenizer.tokenize('d"|e');
+            const fourth = tokenizer.tokenize("f|g");
+
+            expect(first).toBeNull();
+            expect(second).toBeNull();
+            expect(third).toStrictEqual({
+              text: 'a|"b\nc\nd"|e',
+              tokens: ["a", "b\nc\nd", "e"],
+              delimiters: ["|", "|"],
+            });
+            expect(fourth).toStrictEqual({
+              text: "f|g",
+              tokens: ["f", "g"],
+              delimiters: ["|"],
+            });
+          });
+        });
+
+        describe("quoted value spans more than maxRecordLines", () => {
+          it("returns truncated record", () => {
+            const tokenizer = new Tokenizer({
+              delimiter: "|",
+              maxRecordLines: 2,
+              quote: '"',
+            });
+
+            const first = tokenizer.tokenize('a|"b');
+            const second = tokenizer.tokenize("c|d");
+            const third = tokenizer.tokenize("e|f");
+
+            expect(first).toBeNull();
+            expect(second).toStrictEqual({
+              text: 'a|"b\nc|d',
+              tokens: ["a", "b\nc|d"],
+              delimiters: ["|"],
+              truncated: true,
+            });
+            expect(third).toStrictEqual({
+              text: "e|f",
+              tokens: ["e", "f"],
+              delimiters: ["|"],
+            });
+            expect(tokenizer.flush()).toBeNull();
+          });
+        });
+      });
+
+      describe("multi-character delimiter", () => {
+        it("splits by whole delimiter", () => {
+          const tokenizer = new Tokenizer({ delimiter: "~|~" });
+
+          const actual = tokenizer.tokenize("a~|~b|c~~|~d");
+
+          expect(actual).toStrictEqual({
+            text: "a~|~b|c~~|~d",
+            tokens: ["a", "b|c~", "d"],
+            delimiters: ["~|~", "~|~"],
+          });
+        });
+      });
+
+      describe("regex delimiter", () => {
+        it("splits by matches and keeps matched text", () => {
+          const tokenizer = new Tokenizer({ delimiter: /\t+/, quote: '"' });
+
+          const actual = tokenizer.tokenize('a\t\tb\t"c\t\td"\te');
+
+          expect(actual).toStrictEqual({
+            text: 'a\t\tb\t"c\t\td"\te',
+            tokens: ["a", "b", "c\t\td", "e"],
+            delimiters: ["\t\t", "\t", "\t"],
+          });
+        });
+
+        it("does not split escaped delimiters", () => {
+          const tokenizer = new Tokenizer({
+            decodeEscapes: true,
+            delimiter: /\|+/,
+            escape: "\\",
+          });
+
+          const actual = tokenizer.tokenize("a\\||b||c");
+
+          expect(actual?.tokens).toStrictEqual(["a||b", "c"]);
+        });
+      });
+
+      describe("with escape", () => {
+        [
+          { decodeEscapes: false, tokens: ["a\\|b", "c\\\\", "\\n\\x"] },
+          { decodeEscapes: true, tokens: ["a|b", "c\\", "\nx"] },
+        ].forEach(({ decodeEscapes, tokens }) => {
+          describe(`decodeEscapes: ${decodeEscapes}`, () => {
+            it("does not split escaped delimiters", () => {
+              const tokenizer = new Tokenizer({
+                decodeEscapes,
+                delimiter: "|",
+                escape: "\\",
+              });
+
+              const actual = tokenizer.tokenize("a\\|b|c\\\\|\\n\\x");
+
+              expect(actual?.tokens).toStrictEqual(tokens);
+            });
+          });
+        });
+
+        describe("escaped quote", () => {
+          it("does not close quoted value", () => {
+            const tokenizer = new Tokenizer({
+              decodeEscapes: true,
+              delimiter: "|",
+              escape: "\\",
+              quote: '"',
+            });
+
+            const actual = tokenizer.tokenize('"a\\"|b"|c');
+
+            expect(actual?.tokens).toStrictEqual(['a"|b', "c"]);
+          });
+        });
+
+        describe("escaped line break", () => {
+          [
+            { decodeEscapes: false, tokens: ["a", "b\\\nc", "d"] },
+            { decodeEscapes: true, tokens: ["a", "b\nc", "d"] },
+          ].forEach(({ decodeEscapes, tokens }) => {
+            describe(`decodeEscapes: ${decodeEscapes}`, () => {
+              it("returns record once the line is not escaped", () => {
+                const tokenizer = new Tokenizer({
+                  decodeEscapes,
+                  delimiter: "|",
+                  escape: "\\",
+                });
+
+                const first = tokenizer.tokenize("a|b\\");
+                const second = tokenizer.tokenize("c|d");
+
+                expect(first).toBeNull();
+                expect(second).toStrictEqual({
+                  text: "a|b\\\nc|d",
+                  tokens,
+                  delimiters: ["|", "|"],
+                });
+              });
+            });
+          });
+        });
+      });
+    });
+
+    describe("flush", () => {
+      describe("no pending record", () => {
+        it("returns null", () => {
+          const tokenizer = new Tokenizer({ delimiter: "|", quote: '"' });
+          tokenizer.tokenize("a|b");
+
+          expect(tokenizer.flush()).toBeNull();
+        });
+      });
+
+      describe("quote not closed", () => {
+        it("returns record", () => {
+          const tokenizer = new Tokenizer({ delimiter: "|", quote: '"' });
+          tokenizer.tokenize('a|"b');
+          tokenizer.tokenize("c");
+
+          const actual = tokenizer.flush();
+
+          expect(actual).toStrictEqual({
+            text: 'a|"b\nc',
+            tokens: ["a", "b\nc"],
+            delimiters: ["|"],
+          });
+          expect(tokenizer.flush()).toBeNull();
+        });
+      });
+
+      describe("escaped line break", () => {
+        it("keeps escape character", () => {
+          const tokenizer = new Tokenizer({ delimiter: "|", escape: "\\" });
+          tokenizer.tokenize("a|b\\");
+
+          const actual = tokenizer.flush();
+
+          expect(actual).toStrictEqual({
+            text: "a|b\\",
+            tokens: ["a", "b\\"],
+            delimiters: ["|"],
+          });
+        });
+      });
+    });
+  });
+});
@@ -1,19 +1,36 @@
 import { rm } from "node:fs/promises";
 
-import { ColumnMetadata } from "../src/file-metadata.js";
+import { CharacterClass, ColumnMetadata } from "../src/file-metadata.js";
+import { ValueType } from "../src/value-type.js";
 
 export function createColumnMetadata({
+  characterClasses = [],
+  count = 0,
+  lengths = {},
+  maxLength = 0,
+  name = "",
   unbounded,
   uniqueValues = [],
+  valueTypes = [],
 }: {
+  readonly characterClasses?: readonly CharacterClass[];
+  readonly count?: number;
+  readonly lengths?: Readonly<Record<number, number>>;
+  readonly maxLength?: number;
+  readonly name?: string;
   readonly unbounded: boolean;
   readonly uniqueValues?: readonly string[];
+  readonly valueTypes?: readonly ValueType[];
 }): ColumnMetadata {
   return ColumnMetadata.fromJson({
-    maxLength: 0,
-    name: "",
+    characterClasses,
+    count,
+    lengths,
+    maxLength,
+    name,
     unbounded,
     uniqueValues,
+    valueTypes,
   });
 }
 
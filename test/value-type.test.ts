@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ValueType,
+  getCommonValueType,
+  inferValueType,
+  matchesValueType,
+} from "../src/value-type.js";
+
+describe("value-type", () => {
+  describe("inferValueType", () => {
+    (
+      [
+        { value: "", type: "empty" },
+        { value: "-15", type: "integer" },
+        { value: "1.5", type: "decimal" },
+        { value: "2e10", type: "decimal" },
+        { value: "TRUE", type: "boolean" },
+        { value: "no", type: "boolean" },
+        { value: "2023-12-31", type: "date" },
+        { value: "2023-12-31T23:59:59.999Z", type: "date" },
+        { value: "2023-12-31 23:59+01:00", type: "date" },
+        { value: "2023-13-31", type: "string" },
+        { value: "123e4567-e89b-12d3-a456-426614174000", type: "uuid" },
+        { value: "luke@rebellion.org", type: "email" },
+        { value: "Luke Skywalker", type: "string" },
+      ] as const
+    ).forEach(({ value, type }) => {
+      describe(`value: ${value}`, () => {
+        it(`returns ${type}`, () => {
+          expect(inferValueType(value)).toBe(type);
+        });
+      });
+    });
+  });
+
+  describe("getCommonValueType", () => {
+    (
+      [
+        { types: [], type: null },
+        { types: ["empty"], type: "empty" },
+        { types: ["empty", "uuid"], type: "uuid" },
+        { types: ["integer", "decimal"], type: "decimal" },
+        { types: ["integer", "decimal", "empty"], type: "decimal" },
+        { types: ["integer", "boolean"], type: null },
+        { types: ["string"], type: null },
+      ] as const
+    ).forEach(({ types, type }) => {
+      describe(`types: ${types.join(", ")}`, () => {
+        it(`returns ${type}`, () => {
+          expect(getCommonValueType(new Set<ValueType>(types))).toBe(type);
+        });
+      });
+    });
+  });
+
+  describe("matchesValueType", () => {
+    (
+      [
+        { value: "1", type: "integer", expected: true },
+        { value: "1", type: "decimal", expected: true },
+        { value: "1.5", type: "integer", expected: false },
+        { value: "anything", type: "string", expected: true },
+        { value: "", type: "integer", expected: false },
+      ] as const
+    ).forEach(({ value, type, expected }) => {
+      describe(`value: ${value}, type: ${type}`, () => {
+        it(`returns ${expected}`, () => {
+          expect(matchesValueType(value, type)).toBe(expected);
+        });
+      });
+    });
+  });
+});